@@ -0,0 +1,292 @@
+/**
+ * Verifier Engine Setup
+ *
+ * Builds the shared `SocialLinkEngine` from environment variables.
+ * Workflows and routes import from here so they all use the same
+ * network, bot wallet and nonce store.
+ *
+ * Environment:
+ * - NETWORK: "testnet" or "mainnet"
+ * - BOT_PRIVATE_KEY: bot wallet that signs and pays for transactions
+ * - BOT_PRIVATE_KEYS: comma-separated extra bot keys; each run is paid by the least-busy funded one
+ * - {PLATFORM}_{CREDENTIAL}: provider credentials, e.g. TWITCH_CLIENT_ID
+ * - RICH_SOCIAL_METADATA: "true" to pin avatar and profile URL with social atoms
+ * - IPFS_PINNER: "intuition" (default), "kubo" or "local"
+ * - IPFS_API_URL / IPFS_API_AUTHORIZATION: Kubo RPC API (IPFS_PINNER=kubo)
+ * - IPFS_LOCAL_DIR: directory to write locally pinned blocks to (IPFS_PINNER=local)
+ * - UNIQUENESS_POLICY: "allow-many", "one-active" (default) or "require-revocation"
+ * - TRUSTED_ATTESTERS: comma-separated accounts whose triples count as claims (default: bot keys)
+ * - MAX_VERIFICATION_COST: refuse links quoted above this many TRUST (deposits + max gas)
+ * - DEPOSIT_{ROLE}, DEPOSIT_{NETWORK}_{ROLE}, DEPOSIT_{PLATFORM}_{ROLE}: deposits in TRUST,
+ *   e.g. DEPOSIT_TRIPLE, DEPOSIT_TESTNET_SOCIAL, DEPOSIT_DISCORD_WALLET
+ * - DEPOSIT_MINIMUM: "true" to raise every deposit to the MultiVault minimum deposit
+ * - TRIPLE_CURVE_ID / TRIPLE_CURVE_DEPOSIT: extra TRUST staked on the triple on another bonding curve
+ * - MIN_BOT_RESERVE: TRUST the bot must keep; verifications that would dip below it are rejected
+ * - BALANCE_WARNING_THRESHOLD: alert when a bot key's balance drops below this many TRUST
+ * - BALANCE_CHECK_INTERVAL_SECONDS: balance polling interval (default: 300)
+ * - BALANCE_ALERT_WEBHOOK_URL: receives low-balance and recovery alerts
+ * - BATCH_TRANSACTIONS: "true" to create the atoms and triples of concurrent runs in combined transactions
+ * - BATCH_WINDOW_MS / BATCH_MAX_SIZE: how long to collect runs (default: 2000) and most terms per transaction
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { parseEther } from 'viem'
+import {
+  SocialLinkEngine,
+  BalanceMonitor,
+  IntuitionPinner,
+  withMinimumDeposit,
+  KuboPinner,
+  LocalPinner,
+  getChainConfig,
+  UNIQUENESS_CONFIG,
+  type BalanceStatus,
+  type DepositAmounts,
+  type DepositPolicy,
+  type DepositRole,
+  type DepositRules,
+  type MetadataPinner,
+  type UniquenessPolicy,
+} from '@sofia/verifier-core'
+import { platformRegistry, getPlatformCredentialsFromEnv } from './platforms'
+
+export const isTestnet = process.env.NETWORK === 'testnet'
+
+export const chainConfig = getChainConfig(process.env.NETWORK)
+
+let engine: SocialLinkEngine | undefined
+let balanceMonitors: BalanceMonitor[] | undefined
+
+/**
+ * Build the metadata pinner selected by IPFS_PINNER
+ */
+export function createPinnerFromEnv(): MetadataPinner {
+  const pinner = process.env.IPFS_PINNER ?? 'intuition'
+
+  switch (pinner) {
+    case 'intuition':
+      return new IntuitionPinner(chainConfig.graphqlEndpoint)
+    case 'kubo':
+      return new KuboPinner({
+        apiUrl: process.env.IPFS_API_URL,
+        headers: process.env.IPFS_API_AUTHORIZATION
+          ? { Authorization: process.env.IPFS_API_AUTHORIZATION }
+          : undefined,
+      })
+    case 'local': {
+      const directory = process.env.IPFS_LOCAL_DIR
+      return new LocalPinner({
+        onPin: directory
+          ? async (cid, bytes) => {
+              await mkdir(directory, { recursive: true })
+              await writeFile(join(directory, cid), bytes)
+            }
+          : undefined,
+      })
+    }
+    default:
+      throw new Error(`Unknown IPFS_PINNER: ${pinner} (expected intuition, kubo or local)`)
+  }
+}
+
+const DEPOSIT_ROLES: DepositRole[] = ['wallet', 'predicate', 'social', 'triple']
+
+/**
+ * Build the deposit policy from DEPOSIT_* variables (amounts in TRUST)
+ * Returns undefined when none is set, so BOT_DEPOSIT_CONFIG applies.
+ */
+export function createDepositPolicyFromEnv(): DepositPolicy | undefined {
+  const readAmounts = (prefix: string): DepositAmounts | undefined => {
+    const entries = DEPOSIT_ROLES
+      .map((role) => [role, process.env[`${prefix}${role.toUpperCase()}`]] as const)
+      .filter(([, value]) => value)
+      .map(([role, value]) => [role, parseEther(value as string)] as const)
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined
+  }
+
+  const rules: DepositRules = {
+    default: readAmounts('DEPOSIT_'),
+    networks: {
+      testnet: readAmounts('DEPOSIT_TESTNET_'),
+      mainnet: readAmounts('DEPOSIT_MAINNET_'),
+    },
+    platforms: Object.fromEntries(
+      platformRegistry.ids().map((platform) => [platform, readAmounts(`DEPOSIT_${platform.toUpperCase()}_`)])
+    ),
+  }
+
+  const hasRules = rules.default
+    || Object.values(rules.networks ?? {}).some(Boolean)
+    || Object.values(rules.platforms ?? {}).some(Boolean)
+
+  if (process.env.DEPOSIT_MINIMUM === 'true') {
+    return withMinimumDeposit(hasRules ? rules : undefined)
+  }
+  return hasRules ? rules : undefined
+}
+
+/**
+ * Read an optional positive integer setting
+ * Throws on anything else, so a typo is not silently ignored.
+ */
+function readPositiveIntegerEnv(name: string): number | undefined {
+  const value = process.env[name]
+  if (!value) return undefined
+
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer (got "${value}")`)
+  }
+  return parsed
+}
+
+/**
+ * Get the process-wide engine (created on first use)
+ * Throws if neither BOT_PRIVATE_KEY nor BOT_PRIVATE_KEYS is configured.
+ */
+export function getSocialLinkEngine(): SocialLinkEngine {
+  if (engine) return engine
+
+  const [botPrivateKey, ...botPrivateKeys] = [
+    process.env.BOT_PRIVATE_KEY,
+    ...(process.env.BOT_PRIVATE_KEYS?.split(',') ?? []),
+  ]
+    .map((key) => key?.trim())
+    .filter((key): key is string => Boolean(key)) as `0x${string}`[]
+  if (!botPrivateKey) {
+    throw new Error('BOT_PRIVATE_KEY not configured on server')
+  }
+
+  const uniquenessPolicy = process.env.UNIQUENESS_POLICY as UniquenessPolicy | undefined
+  if (uniquenessPolicy && !UNIQUENESS_CONFIG.POLICIES.includes(uniquenessPolicy)) {
+    throw new Error(`Unknown UNIQUENESS_POLICY: ${uniquenessPolicy} (expected ${UNIQUENESS_CONFIG.POLICIES.join(', ')})`)
+  }
+
+  const curveDepositAssets = process.env.TRIPLE_CURVE_DEPOSIT
+  if (curveDepositAssets && !process.env.TRIPLE_CURVE_ID) {
+    throw new Error('TRIPLE_CURVE_DEPOSIT requires TRIPLE_CURVE_ID')
+  }
+
+  const batching = process.env.BATCH_TRANSACTIONS === 'true'
+    ? { windowMs: readPositiveIntegerEnv('BATCH_WINDOW_MS'), maxSize: readPositiveIntegerEnv('BATCH_MAX_SIZE') }
+    : undefined
+
+  const maxVerificationCost = process.env.MAX_VERIFICATION_COST
+    ? parseEther(process.env.MAX_VERIFICATION_COST)
+    : undefined
+
+  engine = new SocialLinkEngine({
+    botPrivateKey,
+    botPrivateKeys,
+    chainConfig,
+    platforms: platformRegistry,
+    credentials: getPlatformCredentialsFromEnv(),
+    richMetadata: process.env.RICH_SOCIAL_METADATA === 'true',
+    pinner: createPinnerFromEnv(),
+    uniquenessPolicy,
+    trustedAttesters: process.env.TRUSTED_ATTESTERS
+      ?.split(',')
+      .map((address) => address.trim() as `0x${string}`)
+      .filter(Boolean),
+    maxVerificationCost,
+    depositPolicy: createDepositPolicyFromEnv(),
+    curveDeposit: curveDepositAssets
+      ? { curveId: BigInt(process.env.TRIPLE_CURVE_ID as string), assets: parseEther(curveDepositAssets) }
+      : undefined,
+    minBotReserve: process.env.MIN_BOT_RESERVE ? parseEther(process.env.MIN_BOT_RESERVE) : undefined,
+    batching,
+  })
+
+  console.log(`[VerifierEngine] Network: ${isTestnet ? 'TESTNET' : 'MAINNET'} (Chain ID: ${chainConfig.chain.id})`)
+  console.log(`[VerifierEngine] Bot address: ${engine.pool.addresses.join(', ')}`)
+  console.log(`[VerifierEngine] IPFS pinner: ${process.env.IPFS_PINNER ?? 'intuition'}`)
+  if (maxVerificationCost !== undefined) {
+    console.log(`[VerifierEngine] Cost ceiling: ${process.env.MAX_VERIFICATION_COST} TRUST`)
+  }
+  if (batching) {
+    console.log(`[VerifierEngine] Batching: ${batching.windowMs ?? 2000} ms window`)
+  }
+  if (curveDepositAssets) {
+    console.log(`[VerifierEngine] Triple curve deposit: ${curveDepositAssets} TRUST on curve ${process.env.TRIPLE_CURVE_ID}`)
+  }
+
+  return engine
+}
+
+/**
+ * Check TRIPLE_CURVE_ID against the curve registry once at startup
+ * Runs are refused with INVALID_CURVE until the curve is registered; this
+ * only reports the misconfiguration before the first verification.
+ */
+export async function validateCurveFromEnv(): Promise<void> {
+  const curveId = process.env.TRIPLE_CURVE_ID
+  if (!curveId || !process.env.TRIPLE_CURVE_DEPOSIT) return
+
+  try {
+    await getSocialLinkEngine().validateCurve(BigInt(curveId))
+  } catch (error) {
+    console.error('[VerifierEngine] Triple curve deposit misconfigured:', error instanceof Error ? error.message : error)
+  }
+}
+
+/**
+ * Start polling every bot key's balance when BALANCE_WARNING_THRESHOLD is set
+ * Alerts are logged and posted to BALANCE_ALERT_WEBHOOK_URL (if set).
+ */
+export function startBalanceMonitorFromEnv(): BalanceMonitor[] {
+  const threshold = process.env.BALANCE_WARNING_THRESHOLD
+  if (!threshold) return []
+  if (balanceMonitors) return balanceMonitors
+
+  const intervalSeconds = Number(process.env.BALANCE_CHECK_INTERVAL_SECONDS || 300)
+  if (!Number.isFinite(intervalSeconds) || intervalSeconds <= 0) {
+    console.warn(
+      `[VerifierEngine] Balance monitor not started: BALANCE_CHECK_INTERVAL_SECONDS must be a positive number (got "${process.env.BALANCE_CHECK_INTERVAL_SECONDS}")`
+    )
+    return []
+  }
+
+  let socialLinkEngine: SocialLinkEngine
+  try {
+    socialLinkEngine = getSocialLinkEngine()
+  } catch (error) {
+    console.warn('[VerifierEngine] Balance monitor not started:', error instanceof Error ? error.message : error)
+    return []
+  }
+
+  const webhookUrl = process.env.BALANCE_ALERT_WEBHOOK_URL
+  const alert = (event: 'low_balance' | 'balance_recovered') => async (status: BalanceStatus) => {
+    if (!webhookUrl) return
+
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        event,
+        network: isTestnet ? 'testnet' : 'mainnet',
+        address: status.address,
+        balance: status.balance.toString(),
+        warningThreshold: status.warningThreshold.toString(),
+        checkedAt: new Date(status.checkedAt).toISOString(),
+      }),
+    })
+    if (!response.ok) {
+      console.warn(`[VerifierEngine] Balance alert webhook returned ${response.status}`)
+    }
+  }
+
+  const { publicClient, pool } = socialLinkEngine
+  balanceMonitors = pool.addresses.map((address) => new BalanceMonitor({
+    address,
+    getBalance: () => publicClient.getBalance({ address }),
+    warningThreshold: parseEther(threshold),
+    intervalMs: intervalSeconds * 1000,
+    onLowBalance: alert('low_balance'),
+    onRecovered: alert('balance_recovered'),
+  }))
+  balanceMonitors.forEach((monitor) => monitor.start())
+
+  console.log(`[VerifierEngine] Balance monitor: warning below ${threshold} TRUST (${balanceMonitors.length} key(s))`)
+  return balanceMonitors
+}
@@ -1,14 +1,25 @@
 /**
  * Mastra Entry Point
  *
- * Register your workflows here to expose them via the Mastra API.
+ * Register your workflows and custom routes here to expose them via the Mastra API.
  */
 
 import { Mastra } from '@mastra/core'
 import { verifierWorkflow } from './workflows/verifier'
+import { socialLookupWorkflow } from './workflows/socialLookup'
+import { challengeRoute } from './routes/challenge'
+import { quoteRoute } from './routes/quote'
+import { startBalanceMonitorFromEnv, validateCurveFromEnv } from './engine'
 
 export const mastra = new Mastra({
   workflows: {
     verifierWorkflow,
+    socialLookupWorkflow,
+  },
+  server: {
+    apiRoutes: [challengeRoute, quoteRoute],
   },
 })
+
+startBalanceMonitorFromEnv()
+void validateCurveFromEnv()
@@ -0,0 +1,48 @@
+/**
+ * Platforms
+ *
+ * Register custom platform providers here. The workflow input schema,
+ * the challenge route and the engine credentials are all derived from
+ * `platformRegistry`, so a registered provider is available everywhere.
+ *
+ * Example:
+ * platformRegistry.register({
+ *   id: 'gitlab',
+ *   predicate: 'has verified gitlab id',
+ *   endpoint: 'https://gitlab.com/api/v4/user',
+ *   buildHeaders: (token) => ({ Authorization: `Bearer ${token}` }),
+ *   extractIdentity: (data) => {
+ *     const user = data as { id?: number; username?: string } | null
+ *     return user?.id ? { userId: String(user.id), username: user.username } : undefined
+ *   },
+ * })
+ */
+
+import { z } from 'zod'
+import { platformRegistry, type PlatformCredentials } from '@sofia/verifier-core'
+
+export { platformRegistry }
+
+/**
+ * Zod enum of every registered platform ID
+ */
+export const platformSchema = z.enum(platformRegistry.ids() as [string, ...string[]])
+
+/**
+ * Read provider credentials from env: credential `clientId` of platform
+ * `twitch` is read from TWITCH_CLIENT_ID.
+ */
+export function getPlatformCredentialsFromEnv(): Record<string, PlatformCredentials> {
+  return Object.fromEntries(
+    platformRegistry.list().map((provider) => [
+      provider.id,
+      Object.fromEntries(
+        (provider.requiredCredentials ?? []).map((name) => [name, process.env[toEnvName(provider.id, name)]])
+      ),
+    ])
+  )
+}
+
+function toEnvName(platform: string, credential: string): string {
+  return `${platform}_${credential.replace(/([a-z0-9])([A-Z])/g, '$1_$2')}`.toUpperCase()
+}
@@ -0,0 +1,48 @@
+/**
+ * Wallet Challenge Route
+ *
+ * Issues the single-use challenge a user signs to prove they own the wallet
+ * being linked. The signed challenge is then passed to `verifierWorkflow`.
+ *
+ * POST /verifier/challenge
+ * { "walletAddress": "0x...", "platform": "discord" }
+ */
+
+import { registerApiRoute } from '@mastra/core/server'
+import { z } from 'zod'
+import { isAddress } from 'viem'
+import { createLinkChallenge } from '@sofia/verifier-core'
+import { chainConfig } from '../engine'
+import { platformSchema } from '../platforms'
+
+const challengeRequestSchema = z.object({
+  walletAddress: z.string().refine((value) => isAddress(value), 'Invalid wallet address'),
+  platform: platformSchema,
+})
+
+export const challengeRoute = registerApiRoute('/verifier/challenge', {
+  method: 'POST',
+  handler: async (c) => {
+    const body = await c.req.json().catch(() => null)
+    const parsed = challengeRequestSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.issues[0]?.message ?? 'Invalid request' }, 400)
+    }
+
+    const { walletAddress, platform } = parsed.data
+    const issued = await createLinkChallenge(walletAddress as `0x${string}`, platform, {
+      chainId: chainConfig.chain.id,
+    })
+
+    // bigint fields in typed data are not JSON-serializable
+    return c.json({
+      challenge: issued.challenge,
+      typedData: {
+        ...issued.typedData,
+        message: { ...issued.typedData.message, expiry: issued.challenge.expiry },
+      },
+      message: issued.message,
+    })
+  },
+})
@@ -0,0 +1,91 @@
+/**
+ * Verification Quote Route
+ *
+ * Previews what linking an account would cost the bot: TRUST sent, fees,
+ * shares minted per atom/triple and an upper bound on gas. Amounts are
+ * returned as wei strings. Nothing is pinned: the social atom URI is computed
+ * locally. With RICH_SOCIAL_METADATA, pass the account's avatarUrl and
+ * profileUrl so the quote prices the same social atom the link creates.
+ *
+ * With IPFS_PINNER=intuition the URI pinThing will return cannot be derived,
+ * so the response has `socialAtomEstimated: true`, no `tripleId` and a `note`.
+ *
+ * POST /verifier/quote
+ * { "walletAddress": "0x...", "platform": "discord", "userId": "123456789", "avatarUrl"?: "...", "profileUrl"?: "..." }
+ */
+
+import { registerApiRoute } from '@mastra/core/server'
+import { z } from 'zod'
+import { isAddress } from 'viem'
+import type { CostPreview } from '@sofia/verifier-core'
+import { getSocialLinkEngine } from '../engine'
+import { platformSchema } from '../platforms'
+
+const quoteRequestSchema = z.object({
+  walletAddress: z.string().refine((value) => isAddress(value), 'Invalid wallet address'),
+  platform: platformSchema,
+  userId: z.string().min(1, 'userId is required'),
+  avatarUrl: z.string().optional(),
+  profileUrl: z.string().optional(),
+})
+
+// bigint is not JSON serializable
+function serializePreview(preview: CostPreview) {
+  return {
+    termId: preview.termId,
+    curveId: preview.curveId.toString(),
+    assets: preview.assets.toString(),
+    creationCost: preview.creationCost.toString(),
+    fees: preview.fees.toString(),
+    assetsAfterFees: preview.assetsAfterFees.toString(),
+    shares: preview.shares.toString(),
+  }
+}
+
+export const quoteRoute = registerApiRoute('/verifier/quote', {
+  method: 'POST',
+  handler: async (c) => {
+    const body = await c.req.json().catch(() => null)
+    const parsed = quoteRequestSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.issues[0]?.message ?? 'Invalid request' }, 400)
+    }
+
+    const { walletAddress, platform, userId, avatarUrl, profileUrl } = parsed.data
+
+    try {
+      const quote = await getSocialLinkEngine().quoteVerification(
+        platform,
+        walletAddress as `0x${string}`,
+        userId,
+        { avatarUrl, profileUrl }
+      )
+
+      return c.json({
+        platform: quote.platform,
+        walletAddress: quote.walletAddress,
+        userId: quote.userId,
+        tripleId: quote.tripleId,
+        socialAtomEstimated: quote.socialAtomEstimated,
+        note: quote.socialAtomEstimated
+          ? 'The social atom URI cannot be derived without pinning: the social atom and triple may be priced as new and their term IDs are estimates'
+          : undefined,
+        atoms: Object.fromEntries(
+          Object.entries(quote.atoms).map(([role, preview]) => [role, serializePreview(preview)])
+        ),
+        triple: quote.triple ? serializePreview(quote.triple) : null,
+        curveDeposit: quote.curveDeposit ? serializePreview(quote.curveDeposit) : null,
+        totalAssets: quote.totalAssets.toString(),
+        totalFees: quote.totalFees.toString(),
+        maxGasCost: quote.maxGasCost.toString(),
+        totalCost: quote.totalCost.toString(),
+        maxCost: quote.maxCost?.toString(),
+        withinLimit: quote.withinLimit,
+      })
+    } catch (error) {
+      console.error('[QuoteRoute] Quote failed:', error)
+      return c.json({ error: error instanceof Error ? error.message : 'Quote failed' }, 500)
+    }
+  },
+})
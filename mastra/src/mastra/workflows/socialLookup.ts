@@ -0,0 +1,121 @@
+/**
+ * Social Lookup Workflow
+ *
+ * Reverse lookup for moderators: which wallet is linked to a social account?
+ *
+ * ============================================================
+ * HOW IT WORKS:
+ * 1. Send platform + userId (e.g. discord / 1234)
+ * 2. find-wallets: finds the social atoms labelled with the userId and
+ *    lists every [wallet] [has verified {platform} id] [userId] triple created
+ *    by a trusted attester (TRUSTED_ATTESTERS or the bot keys, unless
+ *    `attesters` says otherwise)
+ *
+ * More than one wallet means the account was claimed by several wallets.
+ * ============================================================
+ */
+
+import { createStep, createWorkflow } from '@mastra/core/workflows'
+import { isAddress } from 'viem'
+import { z } from 'zod'
+import { getSocialLinkEngine } from '../engine'
+import { platformSchema } from '../platforms'
+
+// ============================================================
+// Schemas
+// ============================================================
+
+const addressSchema = z.custom<`0x${string}`>(
+  (value) => typeof value === 'string' && isAddress(value),
+  'Invalid attester address'
+)
+
+const inputSchema = z.object({
+  platform: platformSchema.describe('Social platform'),
+  userId: z.string().describe('Platform account ID'),
+  attesters: z
+    .union([z.array(addressSchema), z.literal('any')])
+    .optional()
+    .describe("Accounts whose triples count (default: trusted attesters); 'any' counts every creator"),
+})
+
+const claimSchema = z.object({
+  walletAddress: z.string(),
+  tripleId: z.string(),
+  socialAtomId: z.string(),
+  socialAtomUri: z.string().optional(),
+  txHash: z.string().optional(),
+  blockNumber: z.number().optional(),
+  createdAt: z.string().optional(),
+  attestedBy: z.string().optional(),
+  totalShares: z.string().describe('Vault shares (wei)'),
+  totalAssets: z.string().describe('Vault assets (wei)'),
+})
+
+const outputSchema = z.object({
+  success: z.boolean(),
+  platform: z.string().optional(),
+  userId: z.string().optional(),
+  wallets: z.array(z.string()).optional(),
+  claims: z.array(claimSchema).optional(),
+  error: z.string().optional(),
+})
+
+// ============================================================
+// Workflow Steps
+// ============================================================
+
+const findWallets = createStep({
+  id: 'find-wallets',
+  description: 'List every wallet linked to a platform account',
+  inputSchema,
+  outputSchema,
+  retries: 3,
+  execute: async ({ inputData }) => {
+    const { platform, userId, attesters } = inputData
+
+    let engine
+    try {
+      engine = getSocialLinkEngine()
+    } catch (error) {
+      return {
+        success: false,
+        platform,
+        userId,
+        error: error instanceof Error ? error.message : 'Verifier not configured',
+      }
+    }
+
+    const ownership = await engine.findWalletsForSocialId(platform, userId, { attesters })
+
+    console.log(`[SocialLookupWorkflow] ${platform} ${userId}: ${ownership.wallets.length} wallet(s)`)
+
+    return {
+      success: true,
+      platform,
+      userId,
+      wallets: ownership.wallets,
+      // bigint is not JSON serializable
+      claims: ownership.claims.map((claim) => ({
+        ...claim,
+        totalShares: claim.totalShares.toString(),
+        totalAssets: claim.totalAssets.toString(),
+      })),
+    }
+  },
+})
+
+// ============================================================
+// Create and export the workflow
+// ============================================================
+
+const socialLookupWorkflow = createWorkflow({
+  id: 'social-lookup-workflow',
+  inputSchema,
+  outputSchema,
+})
+  .then(findWallets)
+
+socialLookupWorkflow.commit()
+
+export { socialLookupWorkflow }
@@ -6,664 +6,620 @@
  *
  * ============================================================
  * HOW IT WORKS:
- * 1. Frontend sends OAuth token + wallet address + platform
- * 2. This workflow verifies the token and extracts userId
- * 3. Creates atoms (wallet, predicate, social) if needed
- * 4. Creates the triple on-chain
- * 5. Returns txHash on success
+ * 1. Frontend requests a challenge (POST /verifier/challenge) and the user signs it
+ * 2. Frontend sends OAuth token (or Telegram login payload) + wallet address
+ *    + platform + signed challenge
+ * 3. verify-oauth:    checks the wallet signature, verifies the token, extracts userId
+ * 4. pin-metadata:    pins the social atom metadata to IPFS
+ * 5. resolve-atoms:   calculates atom/triple IDs (stops here if already linked)
+ * 6. check-uniqueness: stops if another wallet holds the account (UNIQUENESS_POLICY),
+ *                     looking up the triples on the resolved social atom
+ * 7. quote-cost:      previews the cost and picks the bot key that pays
+ *                     (stops above MAX_VERIFICATION_COST or when no key can pay)
+ * 8. create-atoms:    creates missing atoms (wallet, predicate, social)
+ * 9. create-triple:   creates the triple on-chain
+ * 10. deposit-curve:  stakes extra TRUST on another bonding curve (if TRIPLE_CURVE_ID is set)
+ * 11. notify:         posts the result to WEBHOOK_URL (if set)
  *
- * IPFS Pinning:
- * - Social atom uses IPFS pinning 
+ * Off-chain steps are retried automatically. If an on-chain step fails
+ * (e.g. the bot is out of funds) it suspends instead of failing; resume
+ * the run with `{ "retry": true }` to continue from that step without
+ * re-running OAuth or re-creating atoms.
+ *
+ * The linking logic lives in `SocialLinkEngine` from @sofia/verifier-core;
+ * this file only adapts it to Mastra (schemas, steps, env configuration).
  * ============================================================
  */
 
 import { createStep, createWorkflow } from '@mastra/core/workflows'
+import { isAddress } from 'viem'
 import { z } from 'zod'
-import { createPublicClient, createWalletClient, http, stringToHex, encodeFunctionData } from 'viem'
-import { privateKeyToAccount } from 'viem/accounts'
-import { defineChain } from 'viem'
+import {
+  VERIFIER_ERROR_CODES,
+  toErrorFields,
+  toVerifierError,
+  type PreflightResult,
+  type TermDeposit,
+} from '@sofia/verifier-core'
+import { getSocialLinkEngine } from '../engine'
+import { platformSchema } from '../platforms'
 
 // ============================================================
-// Chain Configuration (supports NETWORK=testnet or NETWORK=mainnet)
+// Schemas
 // ============================================================
 
-const isTestnet = process.env.NETWORK === 'testnet'
-
-const intuitionMainnet = defineChain({
-  id: 1155,
-  name: 'Intuition Mainnet',
-  network: 'intuition-mainnet',
-  nativeCurrency: {
-    decimals: 18,
-    name: 'Trust',
-    symbol: 'TRUST',
-  },
-  rpcUrls: {
-    public: { http: ['https://rpc.intuition.systems'] },
-    default: { http: ['https://rpc.intuition.systems'] },
-  },
-  blockExplorers: {
-    default: { name: 'Explorer', url: 'https://explorer.intuition.systems' },
-  },
+const hexSchema = z.custom<`0x${string}`>(
+  (value) => typeof value === 'string' && /^0x[0-9a-fA-F]*$/.test(value),
+  'Expected a 0x-prefixed hex string'
+)
+
+const errorCodeSchema = z.enum(VERIFIER_ERROR_CODES)
+
+// Deposited event, bigints as decimal strings
+const depositSchema = z.object({
+  termId: z.string(),
+  curveId: z.string(),
+  receiver: z.string(),
+  assets: z.string(),
+  assetsAfterFees: z.string(),
+  shares: z.string(),
 })
 
-const intuitionTestnet = defineChain({
-  id: 13579,
-  name: 'Intuition Testnet',
-  network: 'intuition-testnet',
-  nativeCurrency: {
-    decimals: 18,
-    name: 'Trust',
-    symbol: 'TRUST',
-  },
-  rpcUrls: {
-    public: { http: ['https://testnet.rpc.intuition.systems'] },
-    default: { http: ['https://testnet.rpc.intuition.systems'] },
-  },
-  blockExplorers: {
-    default: { name: 'Explorer', url: 'https://testnet.explorer.intuition.systems' },
-  },
+const challengeSchema = z.object({
+  wallet: z.string().describe('Wallet the challenge was issued for'),
+  platform: platformSchema.describe('Platform the challenge was issued for'),
+  nonce: z.string().describe('Single-use nonce from POST /verifier/challenge'),
+  expiry: z.number().describe('Challenge expiry (unix seconds)'),
 })
 
-// Select chain based on NETWORK env var
-const SELECTED_CHAIN = isTestnet ? intuitionTestnet : intuitionMainnet
-const RPC_URL = isTestnet
-  ? 'https://testnet.rpc.intuition.systems'
-  : 'https://rpc.intuition.systems'
-const MULTIVAULT_ADDRESS = isTestnet
-  ? '0x2Ece8D4dEdcB9918A398528f3fa4688b1d2CAB91' as const  // Testnet
-  : '0x6E35cF57A41fA15eA0EaE9C33e751b01A784Fe7e' as const  // Mainnet
-const INTUITION_GRAPHQL_ENDPOINT = isTestnet
-  ? 'https://testnet.intuition.sh/v1/graphql'
-  : 'https://mainnet.intuition.sh/v1/graphql'
-const EXPLORER_URL = isTestnet
-  ? 'https://testnet.explorer.intuition.systems'
-  : 'https://explorer.intuition.systems'
+const inputSchema = z.object({
+  walletAddress: z.string().refine((value) => isAddress(value), 'Invalid wallet address').describe('User wallet address'),
+  platform: platformSchema.describe('Social platform'),
+  oauthToken: z.string().optional().describe('OAuth access token'),
+  authData: z
+    .record(z.union([z.string(), z.number()]))
+    .optional()
+    .describe('Signed login payload for platforms without OAuth (Telegram: id, username, auth_date, hash)'),
+  challenge: challengeSchema.describe('Wallet ownership challenge'),
+  signature: z.string().describe('Wallet signature over the challenge'),
+  signatureType: z.enum(['eip712', 'eip191']).default('eip712').describe('How the challenge was signed'),
+  dryRun: z.boolean().optional().describe('Verify, pin and simulate transactions without sending them'),
+})
 
-// ============================================================
-// MultiVault ABI (minimal)
-// ============================================================
+const outputSchema = z.object({
+  success: z.boolean(),
+  platform: z.string().optional(),
+  userId: z.string().optional(),
+  username: z.string().optional(),
+  alreadyVerified: z.boolean().optional(),
+  dryRun: z.boolean().optional(),
+  tripleSimulated: z.boolean().optional(),
+  tripleId: z.string().optional(),
+  walletAtomId: z.string().optional(),
+  predicateAtomId: z.string().optional(),
+  socialAtomId: z.string().optional(),
+  deposits: z.array(depositSchema).optional().describe('Assets deposited and shares minted, per term'),
+  signerAddress: z.string().optional(),
+  txHash: z.string().optional(),
+  blockNumber: z.number().optional(),
+  walletAtomCreated: z.boolean().optional(),
+  predicateAtomCreated: z.boolean().optional(),
+  socialAtomCreated: z.boolean().optional(),
+  error: z.string().optional(),
+  errorCode: errorCodeSchema.optional(),
+  contractError: z.string().optional(),
+  contractErrorArgs: z.array(z.string()).optional(),
+  curveId: z.string().optional(),
+  curveDepositTxHash: z.string().optional(),
+  curveDepositError: z.string().optional(),
+  claimedBy: z.array(z.string()).optional(),
+})
 
-const MultiVaultAbi = [
-  {
-    inputs: [{ name: 'data', type: 'bytes' }],
-    name: 'calculateAtomId',
-    outputs: [{ name: '', type: 'bytes32' }],
-    stateMutability: 'pure',
-    type: 'function',
-  },
-  {
-    inputs: [{ name: 'id', type: 'bytes32' }],
-    name: 'isTermCreated',
-    outputs: [{ name: '', type: 'bool' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [],
-    name: 'getAtomCost',
-    outputs: [{ name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [],
-    name: 'getTripleCost',
-    outputs: [{ name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [
-      { name: 'atomsData', type: 'bytes[]' },
-      { name: 'assets', type: 'uint256[]' },
-    ],
-    name: 'createAtoms',
-    outputs: [{ name: '', type: 'bytes32[]' }],
-    stateMutability: 'payable',
-    type: 'function',
-  },
-  {
-    inputs: [
-      { name: 'subjectIds', type: 'bytes32[]' },
-      { name: 'predicateIds', type: 'bytes32[]' },
-      { name: 'objectIds', type: 'bytes32[]' },
-      { name: 'assets', type: 'uint256[]' },
-    ],
-    name: 'createTriples',
-    outputs: [{ name: '', type: 'bytes32[]' }],
-    stateMutability: 'payable',
-    type: 'function',
-  },
-] as const
+// Intermediate schemas: each step adds its result to the previous one
 
-// ============================================================
-// Predicate names for each platform
-// ============================================================
+const verifiedAccountSchema = z.object({
+  walletAddress: hexSchema,
+  platform: platformSchema,
+  userId: z.string(),
+  username: z.string().optional(),
+  avatarUrl: z.string().optional(),
+  profileUrl: z.string().optional(),
+})
 
-type Platform = 'discord' | 'youtube' | 'spotify' | 'twitch' | 'twitter'
+const pinnedMetadataSchema = verifiedAccountSchema.extend({
+  socialIpfsUri: z.string(),
+})
 
-const PREDICATE_NAMES: Record<Platform, string> = {
-  discord: 'has verified discord id',
-  youtube: 'has verified youtube id',
-  spotify: 'has verified spotify id',
-  twitch: 'has verified twitch id',
-  twitter: 'has verified twitter id',
-}
+const resolvedAtomSchema = z.object({
+  data: hexSchema,
+  id: hexSchema,
+  exists: z.boolean(),
+})
 
-// ============================================================
-// IPFS Pinning
-// ============================================================
+const resolvedAtomsSchema = pinnedMetadataSchema.extend({
+  atoms: z.object({
+    platform: platformSchema,
+    wallet: resolvedAtomSchema,
+    predicate: resolvedAtomSchema,
+    social: resolvedAtomSchema,
+    tripleId: hexSchema,
+    tripleExists: z.boolean(),
+  }),
+})
 
-/**
- * Pin data to IPFS via Intuition's pinThing mutation
- * Returns the IPFS URI that will be used as the atom data
- * The `name` parameter becomes the atom's label on-chain
- */
-async function pinToIPFS(name: string, description: string): Promise<string> {
-  const mutation = `
-    mutation PinThing($thing: PinThingInput!) {
-      pinThing(thing: $thing) {
-        uri
-      }
-    }
-  `
-
-  const response = await fetch(INTUITION_GRAPHQL_ENDPOINT, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      query: mutation,
-      variables: {
-        thing: {
-          name,
-          description,
-          image: '',
-          url: ''
-        }
-      }
-    })
-  })
+const quotedAtomsSchema = resolvedAtomsSchema.extend({
+  signerAddress: hexSchema.describe('Bot key that pays for every transaction of the run'),
+  reservationId: z.string().describe('Released when the run finishes, so other runs can use the key'),
+})
 
-  if (!response.ok) {
-    throw new Error(`IPFS pinning failed: ${response.status}`)
-  }
+const createdAtomsSchema = quotedAtomsSchema.extend({
+  atomsTxHash: hexSchema.optional(),
+  atomIds: z.object({ wallet: hexSchema, predicate: hexSchema, social: hexSchema }),
+  deposits: z.array(depositSchema),
+  walletAtomCreated: z.boolean(),
+  predicateAtomCreated: z.boolean(),
+  socialAtomCreated: z.boolean(),
+})
 
-  const result = await response.json()
+const createdTripleSchema = createdAtomsSchema.extend({
+  createdTripleId: hexSchema.optional().describe('From the TripleCreated event'),
+  txHash: hexSchema.optional(),
+  blockNumber: z.number().optional(),
+})
 
-  if (result.errors) {
-    throw new Error(`IPFS pinning error: ${result.errors[0].message}`)
-  }
+const curveDepositSchema = createdTripleSchema.extend({
+  curveId: z.string().optional(),
+  curveDepositTxHash: hexSchema.optional(),
+  curveDepositError: z.string().optional(),
+})
 
-  const uri = result.data?.pinThing?.uri
-  if (!uri) {
-    throw new Error('No IPFS URI returned from pinThing')
-  }
+// On-chain steps suspend on failure and resume with { retry: true }
+const onchainSuspendSchema = z.object({
+  error: z.string(),
+  errorCode: errorCodeSchema,
+  contractError: z.string().optional(),
+  contractErrorArgs: z.array(z.string()).optional(),
+  txHash: hexSchema.optional().describe('Set when the transaction was mined but reverted'),
+})
 
-  return uri
-}
+const onchainResumeSchema = z.object({
+  retry: z.boolean(),
+})
 
 // ============================================================
-// OAuth Verification
+// Workflow Steps
 // ============================================================
 
-interface OAuthVerificationResult {
-  valid: boolean
-  userId?: string
-  username?: string
-  error?: string
+function serializeDeposit(deposit: TermDeposit): z.infer<typeof depositSchema> {
+  return {
+    termId: deposit.termId,
+    curveId: deposit.curveId.toString(),
+    receiver: deposit.receiver,
+    assets: deposit.assets.toString(),
+    assetsAfterFees: deposit.assetsAfterFees.toString(),
+    shares: deposit.shares.toString(),
+  }
 }
 
-const OAUTH_ENDPOINTS = {
-  youtube: {
-    url: 'https://www.googleapis.com/youtube/v3/channels?part=snippet&mine=true',
-    authHeader: (token: string) => `Bearer ${token}`,
-  },
-  spotify: {
-    url: 'https://api.spotify.com/v1/me',
-    authHeader: (token: string) => `Bearer ${token}`,
-  },
-  discord: {
-    url: 'https://discord.com/api/users/@me',
-    authHeader: (token: string) => `Bearer ${token}`,
-  },
-  twitch: {
-    url: 'https://api.twitch.tv/helix/users',
-    authHeader: (token: string) => `Bearer ${token}`,
-    requiresClientId: true,
-  },
-  twitter: {
-    url: 'https://api.twitter.com/2/users/me',
-    authHeader: (token: string) => `Bearer ${token}`,
-  },
-} as const
-
-async function verifyAndGetUserId(
-  platform: Platform,
-  token: string,
-  clientId?: string
-): Promise<OAuthVerificationResult> {
-  const endpoint = OAUTH_ENDPOINTS[platform]
-
-  try {
-    const headers: Record<string, string> = {
-      Authorization: endpoint.authHeader(token),
-    }
-
-    if (platform === 'twitch') {
-      const twitchClientId = clientId || process.env.TWITCH_CLIENT_ID
-      if (!twitchClientId) {
-        return { valid: false, error: 'Twitch Client ID required' }
-      }
-      headers['Client-Id'] = twitchClientId
+const verifyOAuth = createStep({
+  id: 'verify-oauth',
+  description: 'Check the wallet ownership signature and verify the OAuth token or login payload',
+  inputSchema,
+  outputSchema: verifiedAccountSchema,
+  execute: async ({ inputData, bail }) => {
+    if (!inputData?.walletAddress) {
+      return bail({ success: false, error: 'walletAddress is required', errorCode: 'INVALID_REQUEST' })
     }
-
-    const response = await fetch(endpoint.url, { headers })
-
-    if (!response.ok) {
-      return { valid: false, error: `API returned ${response.status}` }
+    if (!inputData?.platform) {
+      return bail({ success: false, error: 'platform is required', errorCode: 'INVALID_REQUEST' })
     }
-
-    const data = await response.json()
-
-    console.log(`[VerifierWorkflow] ${platform} API response:`, JSON.stringify(data).substring(0, 500))
-
-    // Extract userId based on platform
-    let userId: string | undefined
-    let username: string | undefined
-
-    switch (platform) {
-      case 'discord':
-        userId = data.id ? String(data.id) : undefined
-        username = data.username ? String(data.username) : undefined
-        break
-      case 'youtube':
-        userId = data.items?.[0]?.id ? String(data.items[0].id) : undefined
-        username = data.items?.[0]?.snippet?.title ? String(data.items[0].snippet.title) : undefined
-        break
-      case 'spotify':
-        userId = data.id ? String(data.id) : undefined
-        username = data.display_name ? String(data.display_name) : undefined
-        break
-      case 'twitch':
-        userId = data.data?.[0]?.id ? String(data.data[0].id) : undefined
-        username = data.data?.[0]?.login ? String(data.data[0].login) : undefined
-        break
-      case 'twitter':
-        userId = data.data?.id ? String(data.data.id) : undefined
-        username = data.data?.username ? String(data.data.username) : undefined
-        break
+    if (!inputData?.challenge || !inputData?.signature) {
+      return bail({ success: false, error: 'Signed wallet challenge is required', errorCode: 'INVALID_REQUEST' })
     }
 
-    console.log(`[VerifierWorkflow] ${platform} extracted userId: ${userId}, username: ${username}`)
+    const { walletAddress, platform, oauthToken, authData, challenge, signature, signatureType } = inputData
 
-    if (!userId) {
-      return { valid: false, error: `Could not extract user ID from ${platform} response` }
+    // OAuth platforms send a token, Telegram sends its signed login payload
+    const credential = authData ?? oauthToken
+    if (!credential) {
+      return bail({ success: false, platform, error: 'oauthToken or authData is required', errorCode: 'INVALID_REQUEST' })
     }
 
-    return { valid: true, userId, username }
-  } catch (error) {
-    console.error(`[VerifierWorkflow] ${platform}: Verification failed:`, error)
-    return { valid: false, error: error instanceof Error ? error.message : 'Unknown error' }
-  }
-}
-
-// ============================================================
-// Schemas
-// ============================================================
-
-const inputSchema = z.object({
-  walletAddress: z.string().describe('User wallet address'),
-  platform: z.enum(['discord', 'youtube', 'spotify', 'twitch', 'twitter']).describe('Social platform'),
-  oauthToken: z.string().describe('OAuth access token'),
-})
-
-const outputSchema = z.object({
-  success: z.boolean(),
-  platform: z.string().optional(),
-  userId: z.string().optional(),
-  username: z.string().optional(),
-  txHash: z.string().optional(),
-  blockNumber: z.number().optional(),
-  walletAtomCreated: z.boolean().optional(),
-  predicateAtomCreated: z.boolean().optional(),
-  socialAtomCreated: z.boolean().optional(),
-  error: z.string().optional(),
-})
-
-// ============================================================
-// Workflow Step
-// ============================================================
+    console.log(`[VerifierWorkflow] Starting for ${walletAddress} on ${platform}`)
 
-const executeLinkSocial = createStep({
-  id: 'execute-link-social',
-  description: 'Verify OAuth token and link social account to wallet on-chain',
-  inputSchema,
-  outputSchema,
-  execute: async ({ inputData }) => {
-    if (!inputData?.walletAddress) {
-      return { success: false, error: 'walletAddress is required' }
-    }
-    if (!inputData?.platform) {
-      return { success: false, error: 'platform is required' }
-    }
-    if (!inputData?.oauthToken) {
-      return { success: false, error: 'oauthToken is required' }
+    let engine
+    try {
+      engine = getSocialLinkEngine()
+    } catch (error) {
+      return bail({
+        success: false,
+        platform,
+        error: error instanceof Error ? error.message : 'Verifier not configured',
+      })
     }
 
-    const { walletAddress, platform, oauthToken } = inputData
+    // Wallet ownership first: the nonce is single-use, so this step is not retried
+    const ownership = await engine.verifyOwnership(platform, walletAddress as `0x${string}`, {
+      challenge: {
+        ...challenge,
+        wallet: challenge.wallet as `0x${string}`,
+        nonce: challenge.nonce as `0x${string}`,
+      },
+      signature: signature as `0x${string}`,
+      signatureType,
+    })
 
-    console.log(`[VerifierWorkflow] Starting for ${walletAddress} on ${platform}`)
-    console.log(`[VerifierWorkflow] Network: ${isTestnet ? 'TESTNET' : 'MAINNET'} (Chain ID: ${SELECTED_CHAIN.id})`)
+    if (!ownership.valid) {
+      return bail({
+        success: false,
+        platform,
+        error: ownership.error || 'Wallet ownership verification failed',
+        errorCode: 'WALLET_OWNERSHIP_INVALID',
+      })
+    }
 
-    // Step 1: Verify OAuth token and get userId
-    const verification = await verifyAndGetUserId(platform, oauthToken)
+    const verification = await engine.verifyAccount(platform, credential)
 
     if (!verification.valid || !verification.userId) {
-      return {
+      return bail({
         success: false,
         platform,
         error: verification.error || 'OAuth verification failed',
-      }
+        errorCode: verification.errorCode ?? 'OAUTH_INVALID',
+      })
     }
 
     console.log(`[VerifierWorkflow] Verified ${platform} user: ${verification.userId} (${verification.username})`)
 
-    // Check for BOT_PRIVATE_KEY
-    const botPrivateKey = process.env.BOT_PRIVATE_KEY
-    if (!botPrivateKey) {
-      return {
-        success: false,
-        platform,
-        userId: verification.userId,
-        username: verification.username,
-        error: 'BOT_PRIVATE_KEY not configured on server',
-      }
+    return {
+      walletAddress: walletAddress as `0x${string}`,
+      platform,
+      userId: verification.userId,
+      username: verification.username,
+      avatarUrl: verification.avatarUrl,
+      profileUrl: verification.profileUrl,
     }
+  },
+})
 
-    try {
-      // Create viem clients
-      const account = privateKeyToAccount(botPrivateKey as `0x${string}`)
-      const publicClient = createPublicClient({
-        chain: SELECTED_CHAIN,
-        transport: http(RPC_URL),
+const pinMetadata = createStep({
+  id: 'pin-metadata',
+  description: 'Pin the social atom metadata to IPFS',
+  inputSchema: verifiedAccountSchema,
+  outputSchema: pinnedMetadataSchema,
+  retries: 3,
+  execute: async ({ inputData }) => {
+    const socialIpfsUri = await getSocialLinkEngine().pinSocialMetadata(inputData.platform, inputData.userId, inputData)
+    return { ...inputData, socialIpfsUri }
+  },
+})
+
+const resolveAtoms = createStep({
+  id: 'resolve-atoms',
+  description: 'Calculate atom and triple IDs and check which already exist',
+  inputSchema: pinnedMetadataSchema,
+  outputSchema: resolvedAtomsSchema,
+  retries: 3,
+  execute: async ({ inputData, bail }) => {
+    const atoms = await getSocialLinkEngine().resolveAtoms(
+      inputData.platform,
+      inputData.walletAddress,
+      inputData.socialIpfsUri
+    )
+
+    if (atoms.tripleExists) {
+      console.log(`[VerifierWorkflow] Triple already exists: ${atoms.tripleId}`)
+      return bail({
+        success: true,
+        platform: inputData.platform,
+        userId: inputData.userId,
+        username: inputData.username,
+        alreadyVerified: true,
+        tripleId: atoms.tripleId,
+        walletAtomId: atoms.wallet.id,
+        predicateAtomId: atoms.predicate.id,
+        socialAtomId: atoms.social.id,
+        walletAtomCreated: false,
+        predicateAtomCreated: false,
+        socialAtomCreated: false,
       })
-      const walletClient = createWalletClient({
-        account,
-        chain: SELECTED_CHAIN,
-        transport: http(RPC_URL),
+    }
+
+    return { ...inputData, atoms }
+  },
+})
+
+const checkUniqueness = createStep({
+  id: 'check-uniqueness',
+  description: 'Enforce the one-wallet-per-account policy before spending gas',
+  inputSchema: resolvedAtomsSchema,
+  outputSchema: resolvedAtomsSchema,
+  execute: async ({ inputData, bail }) => {
+    const uniqueness = await getSocialLinkEngine().checkUniqueness(
+      inputData.platform,
+      inputData.userId,
+      inputData.walletAddress,
+      inputData.atoms.social.id
+    )
+
+    if (uniqueness.claimedBy) {
+      return bail({
+        success: false,
+        platform: inputData.platform,
+        userId: inputData.userId,
+        username: inputData.username,
+        error: `This ${inputData.platform} account is already linked to another wallet`,
+        errorCode: 'ALREADY_CLAIMED_BY_OTHER_WALLET',
+        claimedBy: uniqueness.claimedBy,
       })
+    }
 
-      console.log(`[VerifierWorkflow] Bot address: ${account.address}`)
-
-      // Step 2: Pin social atom to IPFS (name=userId for correct label)
-      const userId = verification.userId
-      const socialDescription = `Verified ${platform} account ID`
-
-      console.log(`[VerifierWorkflow] Pinning social atom to IPFS: name=${userId}`)
-      const socialIpfsUri = await pinToIPFS(userId, socialDescription)
-      console.log(`[VerifierWorkflow] Social atom IPFS URI: ${socialIpfsUri}`)
-
-      const socialAtomDataHex = stringToHex(socialIpfsUri)
-
-      // Predicate atom = "has verified {platform} id"
-      const predicateName = PREDICATE_NAMES[platform]
-      const predicateDataHex = stringToHex(predicateName)
-
-      console.log(`[VerifierWorkflow] Predicate: ${predicateName}`)
-
-      // Calculate atom IDs
-      const walletAtomData = stringToHex(walletAddress)
-      const [walletAtomId, socialAtomId, predicateAtomId] = await Promise.all([
-        publicClient.readContract({
-          address: MULTIVAULT_ADDRESS,
-          abi: MultiVaultAbi,
-          functionName: 'calculateAtomId',
-          args: [walletAtomData],
-        }),
-        publicClient.readContract({
-          address: MULTIVAULT_ADDRESS,
-          abi: MultiVaultAbi,
-          functionName: 'calculateAtomId',
-          args: [socialAtomDataHex],
-        }),
-        publicClient.readContract({
-          address: MULTIVAULT_ADDRESS,
-          abi: MultiVaultAbi,
-          functionName: 'calculateAtomId',
-          args: [predicateDataHex],
-        }),
-      ])
-
-      console.log(`[VerifierWorkflow] Wallet atom ID: ${walletAtomId}`)
-      console.log(`[VerifierWorkflow] Social atom ID: ${socialAtomId}`)
-      console.log(`[VerifierWorkflow] Predicate atom ID: ${predicateAtomId}`)
-
-      // Check if atoms exist
-      const [walletAtomExists, socialAtomExists, predicateAtomExists] = await Promise.all([
-        publicClient.readContract({
-          address: MULTIVAULT_ADDRESS,
-          abi: MultiVaultAbi,
-          functionName: 'isTermCreated',
-          args: [walletAtomId],
-        }),
-        publicClient.readContract({
-          address: MULTIVAULT_ADDRESS,
-          abi: MultiVaultAbi,
-          functionName: 'isTermCreated',
-          args: [socialAtomId],
-        }),
-        publicClient.readContract({
-          address: MULTIVAULT_ADDRESS,
-          abi: MultiVaultAbi,
-          functionName: 'isTermCreated',
-          args: [predicateAtomId],
-        }),
-      ])
-
-      console.log(`[VerifierWorkflow] Wallet atom exists: ${walletAtomExists}`)
-      console.log(`[VerifierWorkflow] Social atom exists: ${socialAtomExists}`)
-      console.log(`[VerifierWorkflow] Predicate atom exists: ${predicateAtomExists}`)
-
-      // Get costs from contract
-      const [atomCost, tripleCost] = await Promise.all([
-        publicClient.readContract({
-          address: MULTIVAULT_ADDRESS,
-          abi: MultiVaultAbi,
-          functionName: 'getAtomCost',
-        }) as Promise<bigint>,
-        publicClient.readContract({
-          address: MULTIVAULT_ADDRESS,
-          abi: MultiVaultAbi,
-          functionName: 'getTripleCost',
-        }) as Promise<bigint>,
-      ])
-
-      console.log(`[VerifierWorkflow] atomCost: ${atomCost}, tripleCost: ${tripleCost}`)
-
-      // Deposit amounts
-      const atomDeposit = 500000000000000000n // 0.5 TRUST
-      const tripleExtraDeposit = 500000000000000000n // 0.5 TRUST extra
-
-      let walletAtomCreated = false
-      let socialAtomCreated = false
-      let predicateAtomCreated = false
-
-      // Step 3: Create wallet atom if needed
-      if (!walletAtomExists) {
-        console.log(`[VerifierWorkflow] Creating wallet atom...`)
-
-        const atomTotalValue = atomCost + atomDeposit
-
-        const atomCallData = encodeFunctionData({
-          abi: MultiVaultAbi,
-          functionName: 'createAtoms',
-          args: [[walletAtomData], [atomTotalValue]],
-        })
+    if (!uniqueness.allowed) {
+      return bail({
+        success: false,
+        platform: inputData.platform,
+        userId: inputData.userId,
+        username: inputData.username,
+        error: uniqueness.error,
+        errorCode: 'INDEXER_UNAVAILABLE',
+      })
+    }
 
-        const createAtomHash = await walletClient.sendTransaction({
-          to: MULTIVAULT_ADDRESS,
-          data: atomCallData,
-          value: atomTotalValue,
-          gas: 500000n,
-        })
+    return inputData
+  },
+})
 
-        console.log(`[VerifierWorkflow] Wallet atom TX: ${createAtomHash}`)
-        const atomReceipt = await publicClient.waitForTransactionReceipt({ hash: createAtomHash })
-
-        if (atomReceipt.status !== 'success') {
-          return {
-            success: false,
-            platform,
-            userId: verification.userId,
-            username: verification.username,
-            error: `Wallet atom creation failed. TX: ${createAtomHash}`,
-          }
-        }
+const quoteCost = createStep({
+  id: 'quote-cost',
+  description: 'Quote the run, check it against MAX_VERIFICATION_COST and pick a funded bot key',
+  inputSchema: resolvedAtomsSchema,
+  outputSchema: quotedAtomsSchema,
+  retries: 3,
+  execute: async ({ inputData, bail }) => {
+    let preflight: PreflightResult
+    try {
+      preflight = await getSocialLinkEngine().preflight(
+        inputData.platform,
+        inputData.walletAddress,
+        inputData.userId,
+        inputData.atoms
+      )
+    } catch (error) {
+      const failure = toVerifierError(error)
+      // A misconfigured curve does not fix itself on retry
+      if (failure.code !== 'INVALID_CURVE') throw error
 
-        console.log(`[VerifierWorkflow] Wallet atom created in block ${atomReceipt.blockNumber}`)
-        walletAtomCreated = true
-      }
+      return bail({
+        success: false,
+        platform: inputData.platform,
+        userId: inputData.userId,
+        username: inputData.username,
+        ...toErrorFields(failure),
+      })
+    }
 
-      // Step 4: Create predicate atom if needed
-      if (!predicateAtomExists) {
-        console.log(`[VerifierWorkflow] Creating predicate atom: ${predicateName}`)
+    const { failure, signer, reservationId } = preflight
 
-        const predicateAtomTotalValue = atomCost + atomDeposit
+    if (failure) {
+      return bail({
+        success: false,
+        platform: inputData.platform,
+        userId: inputData.userId,
+        username: inputData.username,
+        ...toErrorFields(failure),
+      })
+    }
 
-        const predicateAtomCallData = encodeFunctionData({
-          abi: MultiVaultAbi,
-          functionName: 'createAtoms',
-          args: [[predicateDataHex], [predicateAtomTotalValue]],
-        })
+    return { ...inputData, signerAddress: signer, reservationId }
+  },
+})
 
-        const createPredicateHash = await walletClient.sendTransaction({
-          to: MULTIVAULT_ADDRESS,
-          data: predicateAtomCallData,
-          value: predicateAtomTotalValue,
-          gas: 500000n,
-        })
+const createAtoms = createStep({
+  id: 'create-atoms',
+  description: 'Create missing wallet, predicate and social atoms in one transaction',
+  inputSchema: quotedAtomsSchema,
+  outputSchema: createdAtomsSchema,
+  suspendSchema: onchainSuspendSchema,
+  resumeSchema: onchainResumeSchema,
+  execute: async ({ inputData, resumeData, suspend, bail, getInitData }) => {
+    if (resumeData && !resumeData.retry) {
+      getSocialLinkEngine().releaseSigner(inputData.reservationId)
+      return bail({
+        success: false,
+        platform: inputData.platform,
+        userId: inputData.userId,
+        username: inputData.username,
+        error: 'Atom creation abandoned',
+      })
+    }
 
-        console.log(`[VerifierWorkflow] Predicate atom TX: ${createPredicateHash}`)
-        const predicateReceipt = await publicClient.waitForTransactionReceipt({ hash: createPredicateHash })
-
-        if (predicateReceipt.status !== 'success') {
-          return {
-            success: false,
-            platform,
-            userId: verification.userId,
-            username: verification.username,
-            walletAtomCreated,
-            error: `Predicate atom creation failed. TX: ${createPredicateHash}`,
-          }
-        }
+    const { dryRun } = getInitData<typeof inputSchema>()
 
-        console.log(`[VerifierWorkflow] Predicate atom created in block ${predicateReceipt.blockNumber}`)
-        predicateAtomCreated = true
+    try {
+      const creation = await getSocialLinkEngine().createMissingAtoms(inputData.atoms, {
+        dryRun,
+        signer: inputData.signerAddress,
+      })
+      return {
+        ...inputData,
+        atomsTxHash: creation.txHash,
+        atomIds: creation.atomIds,
+        deposits: creation.deposits.map(serializeDeposit),
+        walletAtomCreated: creation.walletAtomCreated,
+        predicateAtomCreated: creation.predicateAtomCreated,
+        socialAtomCreated: creation.socialAtomCreated,
       }
+    } catch (error) {
+      const failure = toErrorFields(toVerifierError(error))
 
-      // Step 5: Create social atom if needed
-      if (!socialAtomExists) {
-        console.log(`[VerifierWorkflow] Creating social atom: ${userId} (IPFS: ${socialIpfsUri})`)
+      // Nothing was sent, so there is nothing to resume
+      if (dryRun) {
+        getSocialLinkEngine().releaseSigner(inputData.reservationId)
+        return bail({ success: false, platform: inputData.platform, userId: inputData.userId, dryRun, ...failure })
+      }
 
-        const socialAtomTotalValue = atomCost + atomDeposit
+      console.error('[VerifierWorkflow] Atom creation failed, suspending:', error)
+      const { error: message, errorCode, contractError, contractErrorArgs, txHash } = failure
+      return await suspend({ error: message, errorCode, contractError, contractErrorArgs, txHash })
+    }
+  },
+})
 
-        const socialAtomCallData = encodeFunctionData({
-          abi: MultiVaultAbi,
-          functionName: 'createAtoms',
-          args: [[socialAtomDataHex], [socialAtomTotalValue]],
-        })
+const createTriple = createStep({
+  id: 'create-triple',
+  description: 'Create the [wallet] [has verified {platform} id] [userId] triple',
+  inputSchema: createdAtomsSchema,
+  outputSchema: createdTripleSchema,
+  suspendSchema: onchainSuspendSchema,
+  resumeSchema: onchainResumeSchema,
+  execute: async ({ inputData, resumeData, suspend, bail, getInitData }) => {
+    if (resumeData && !resumeData.retry) {
+      getSocialLinkEngine().releaseSigner(inputData.reservationId)
+      return bail({
+        success: false,
+        platform: inputData.platform,
+        userId: inputData.userId,
+        username: inputData.username,
+        walletAtomCreated: inputData.walletAtomCreated,
+        predicateAtomCreated: inputData.predicateAtomCreated,
+        socialAtomCreated: inputData.socialAtomCreated,
+        error: 'Triple creation abandoned',
+      })
+    }
 
-        const createSocialAtomHash = await walletClient.sendTransaction({
-          to: MULTIVAULT_ADDRESS,
-          data: socialAtomCallData,
-          value: socialAtomTotalValue,
-          gas: 500000n,
-        })
+    const engine = getSocialLinkEngine()
+    const { dryRun } = getInitData<typeof inputSchema>()
 
-        console.log(`[VerifierWorkflow] Social atom TX: ${createSocialAtomHash}`)
-        const socialAtomReceipt = await publicClient.waitForTransactionReceipt({ hash: createSocialAtomHash })
-
-        if (socialAtomReceipt.status !== 'success') {
-          return {
-            success: false,
-            platform,
-            userId: verification.userId,
-            username: verification.username,
-            walletAtomCreated,
-            predicateAtomCreated,
-            error: `Social atom creation failed. TX: ${createSocialAtomHash}`,
-          }
-        }
+    try {
+      // Dry run: simulate only, and skip the webhook
+      if (dryRun) {
+        const tripleSimulated = await engine.dryRunTriple(inputData.atoms, inputData.signerAddress)
+
+        console.log(`[VerifierWorkflow] Dry run complete (triple simulated: ${tripleSimulated})`)
+        engine.releaseSigner(inputData.reservationId)
+
+        return bail({
+          success: true,
+          platform: inputData.platform,
+          userId: inputData.userId,
+          username: inputData.username,
+          dryRun: true,
+          tripleSimulated,
+          tripleId: inputData.atoms.tripleId,
+          walletAtomId: inputData.atomIds.wallet,
+          predicateAtomId: inputData.atomIds.predicate,
+          socialAtomId: inputData.atomIds.social,
+          signerAddress: inputData.signerAddress,
+          walletAtomCreated: inputData.walletAtomCreated,
+          predicateAtomCreated: inputData.predicateAtomCreated,
+          socialAtomCreated: inputData.socialAtomCreated,
+        })
+      }
 
-        console.log(`[VerifierWorkflow] Social atom created in block ${socialAtomReceipt.blockNumber}`)
-        socialAtomCreated = true
+      // A previous attempt may have landed after its receipt wait failed
+      if (resumeData && await engine.isTermCreated(inputData.atoms.tripleId)) {
+        console.log(`[VerifierWorkflow] Triple ${inputData.atoms.tripleId} was created by a previous attempt`)
+        return { ...inputData }
       }
 
-      // Step 6: Create triple [wallet] [has verified {platform} id] [userId]
-      console.log(`[VerifierWorkflow] Creating triple: [${walletAddress}] [${predicateName}] [${userId}]`)
+      const triple = await engine.createTriple(inputData.atoms, { signer: inputData.signerAddress })
+      return {
+        ...inputData,
+        createdTripleId: triple.tripleId,
+        txHash: triple.txHash,
+        blockNumber: triple.blockNumber,
+        deposits: [...inputData.deposits, ...triple.deposits.map(serializeDeposit)],
+      }
+    } catch (error) {
+      const failure = toErrorFields(toVerifierError(error))
 
-      const tripleDepositAmount = tripleCost + tripleExtraDeposit
+      if (dryRun) {
+        engine.releaseSigner(inputData.reservationId)
+        return bail({ success: false, platform: inputData.platform, userId: inputData.userId, dryRun, ...failure })
+      }
 
-      const tripleCallData = encodeFunctionData({
-        abi: MultiVaultAbi,
-        functionName: 'createTriples',
-        args: [
-          [walletAtomId as `0x${string}`],
-          [predicateAtomId as `0x${string}`],
-          [socialAtomId as `0x${string}`],
-          [tripleDepositAmount],
-        ],
-      })
+      console.error('[VerifierWorkflow] Triple creation failed, suspending:', error)
+      const { error: message, errorCode, contractError, contractErrorArgs, txHash } = failure
+      return await suspend({ error: message, errorCode, contractError, contractErrorArgs, txHash })
+    }
+  },
+})
 
-      const tripleTxHash = await walletClient.sendTransaction({
-        to: MULTIVAULT_ADDRESS,
-        data: tripleCallData,
-        value: tripleDepositAmount,
-        gas: 800000n,
+const depositCurve = createStep({
+  id: 'deposit-curve',
+  description: 'Stake extra TRUST on the triple on the configured bonding curve',
+  inputSchema: createdTripleSchema,
+  outputSchema: curveDepositSchema,
+  execute: async ({ inputData }) => {
+    // Not retried: a retry after a landed transaction would deposit twice.
+    // The link already exists, so a failed deposit is reported, not fatal.
+    try {
+      const deposit = await getSocialLinkEngine().depositOnCurve(inputData.atoms.tripleId, {
+        signer: inputData.signerAddress,
       })
-
-      console.log(`[VerifierWorkflow] Triple TX: ${tripleTxHash}`)
-      const tripleReceipt = await publicClient.waitForTransactionReceipt({ hash: tripleTxHash })
-
-      if (tripleReceipt.status !== 'success') {
-        return {
-          success: false,
-          platform,
-          userId: verification.userId,
-          username: verification.username,
-          walletAtomCreated,
-          predicateAtomCreated,
-          socialAtomCreated,
-          error: `Triple creation failed. TX: ${tripleTxHash}`,
-        }
-      }
-
-      console.log(`[VerifierWorkflow] Triple created in block ${tripleReceipt.blockNumber}`)
+      if (!deposit) return inputData
 
       return {
-        success: true,
-        platform,
-        userId: verification.userId,
-        username: verification.username,
-        txHash: tripleTxHash,
-        blockNumber: Number(tripleReceipt.blockNumber),
-        walletAtomCreated,
-        predicateAtomCreated,
-        socialAtomCreated,
+        ...inputData,
+        curveId: deposit.curveId.toString(),
+        curveDepositTxHash: deposit.txHash,
+        deposits: deposit.deposit ? [...inputData.deposits, serializeDeposit(deposit.deposit)] : inputData.deposits,
       }
     } catch (error) {
-      console.error('[VerifierWorkflow] Blockchain error:', error)
-      return {
-        success: false,
-        platform,
-        userId: verification.userId,
-        username: verification.username,
-        error: error instanceof Error ? error.message : 'Blockchain transaction failed',
+      console.error('[VerifierWorkflow] Curve deposit failed:', error)
+      return { ...inputData, curveDepositError: toVerifierError(error).message }
+    }
+  },
+})
+
+const notify = createStep({
+  id: 'notify',
+  description: 'Post the verification to WEBHOOK_URL and build the workflow result',
+  inputSchema: curveDepositSchema,
+  outputSchema,
+  execute: async ({ inputData }) => {
+    // Every transaction of the run is done
+    getSocialLinkEngine().releaseSigner(inputData.reservationId)
+
+    const result = {
+      success: true,
+      platform: inputData.platform,
+      userId: inputData.userId,
+      username: inputData.username,
+      tripleId: inputData.createdTripleId ?? inputData.atoms.tripleId,
+      walletAtomId: inputData.atomIds.wallet,
+      predicateAtomId: inputData.atomIds.predicate,
+      socialAtomId: inputData.atomIds.social,
+      deposits: inputData.deposits,
+      signerAddress: inputData.signerAddress,
+      txHash: inputData.txHash,
+      blockNumber: inputData.blockNumber,
+      walletAtomCreated: inputData.walletAtomCreated,
+      predicateAtomCreated: inputData.predicateAtomCreated,
+      socialAtomCreated: inputData.socialAtomCreated,
+      curveId: inputData.curveId,
+      curveDepositTxHash: inputData.curveDepositTxHash,
+      curveDepositError: inputData.curveDepositError,
+    }
+
+    const webhookUrl = process.env.WEBHOOK_URL
+    if (webhookUrl) {
+      // A failing webhook must not fail an on-chain verification that already succeeded
+      try {
+        const response = await fetch(webhookUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ walletAddress: inputData.walletAddress, ...result }),
+        })
+        if (!response.ok) {
+          console.warn(`[VerifierWorkflow] Webhook returned ${response.status}`)
+        }
+      } catch (error) {
+        console.warn('[VerifierWorkflow] Webhook failed:', error)
       }
     }
+
+    return result
   },
 })
 
@@ -675,7 +631,20 @@ const verifierWorkflow = createWorkflow({
   id: 'verifier-workflow',
   inputSchema,
   outputSchema,
-}).then(executeLinkSocial)
+  retryConfig: {
+    attempts: 0,
+    delay: 2000,
+  },
+})
+  .then(verifyOAuth)
+  .then(pinMetadata)
+  .then(resolveAtoms)
+  .then(checkUniqueness)
+  .then(quoteCost)
+  .then(createAtoms)
+  .then(createTriple)
+  .then(depositCurve)
+  .then(notify)
 
 verifierWorkflow.commit()
 
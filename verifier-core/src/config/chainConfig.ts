@@ -99,6 +99,14 @@ export const ChainConfig = {
   mainnet: mainnetConfig,
 } as const
 
+/**
+ * Resolve a chain config from a network name (e.g. the NETWORK env var)
+ * Anything other than "testnet" selects mainnet.
+ */
+export const getChainConfig = (network?: string): ChainConfiguration => {
+  return network === 'testnet' ? testnetConfig : mainnetConfig
+}
+
 /**
  * Gas configuration
  */
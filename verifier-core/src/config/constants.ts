@@ -6,6 +6,8 @@
  * ============================================================
  */
 
+import { BUILTIN_PLATFORM_PROVIDERS, type BuiltinPlatform } from '../platforms/providers'
+
 /**
  * GraphQL endpoint for IPFS pinning
  * Used to create atoms with proper labels
@@ -16,18 +18,23 @@ export const INTUITION_GRAPHQL_ENDPOINT = {
 } as const
 
 /**
- * Predicate names for each social platform
+ * IPFS gateway used to resolve social atom labels the indexer has not resolved
+ */
+export const IPFS_GATEWAY_URL = 'https://ipfs.io/ipfs/'
+
+/**
+ * Predicate names for each built-in social platform
  * These are used to create triples: [wallet] [predicate] [userId]
+ * Derived from the platform providers; use `platformRegistry` for custom platforms.
  */
-export const PREDICATE_NAMES = {
-  discord: 'has verified discord id',
-  youtube: 'has verified youtube id',
-  spotify: 'has verified spotify id',
-  twitch: 'has verified twitch id',
-  twitter: 'has verified twitter id',
-} as const
+export const PREDICATE_NAMES = Object.fromEntries(
+  BUILTIN_PLATFORM_PROVIDERS.map((provider) => [provider.id, provider.predicate])
+) as Record<BuiltinPlatform, string>
 
-export type SocialPlatform = keyof typeof PREDICATE_NAMES
+/**
+ * Platform ID: a built-in platform or any ID registered in `platformRegistry`
+ */
+export type SocialPlatform = BuiltinPlatform | (string & {})
 
 /**
  * Your verifier's term IDs (optional - for legacy triple format)
@@ -70,6 +77,7 @@ export const APPROVAL_TYPE = {
 export const GAS_LIMITS = {
   ATOM_CREATION: 500000n,
   TRIPLE_CREATION: 800000n,
+  CURVE_DEPOSIT: 400000n,
 } as const
 
 /**
@@ -89,10 +97,38 @@ export const BOT_DEPOSIT_CONFIG = {
 export const OAUTH_CONFIG = {
   // Default verification threshold (number of platforms that must be verified)
   DEFAULT_THRESHOLD: 5,
-  // Platforms supported
-  PLATFORMS: ['youtube', 'spotify', 'discord', 'twitch', 'twitter'] as const,
+  // Built-in platforms (see `platformRegistry` for everything registered at runtime)
+  PLATFORMS: BUILTIN_PLATFORM_PROVIDERS.map((provider) => provider.id),
+} as const
+
+/**
+ * Wallet ownership challenge configuration
+ * Users sign a short-lived challenge to prove they control the wallet being linked
+ */
+export const WALLET_CHALLENGE_CONFIG = {
+  // How long an issued challenge stays valid (5 minutes)
+  TTL_SECONDS: 300,
+  // EIP-712 domain
+  DOMAIN_NAME: 'Sofia Verifier',
+  DOMAIN_VERSION: '1',
 } as const
 
+/**
+ * How many wallets may link the same social account
+ * - allow-many:         no limit
+ * - one-active:         blocked while another wallet's claim still has stake
+ *                       (claims whose shares were redeemed no longer count)
+ * - require-revocation: blocked by any other wallet's claim until it is
+ *                       revoked (see `isClaimRevoked` in the engine config)
+ */
+export type UniquenessPolicy = 'allow-many' | 'one-active' | 'require-revocation'
+
+export const UNIQUENESS_CONFIG = {
+  // Policy used when none is configured
+  DEFAULT_POLICY: 'one-active' as UniquenessPolicy,
+  POLICIES: ['allow-many', 'one-active', 'require-revocation'] as const,
+}
+
 /**
  * Pre-existing Term IDs on Intuition Mainnet
  * Used for linking social accounts to wallets (legacy format)
@@ -1,115 +1,136 @@
-
 /**
  * OAuth Endpoints for Token Verification
  *
  * These are the API endpoints used to verify OAuth tokens from each platform.
  * Each endpoint returns user information when called with a valid access token.
+ *
+ * Endpoints come from the platform providers in `platformRegistry`.
  */
 
-export const OAUTH_ENDPOINTS = {
-  youtube: {
-    url: 'https://www.googleapis.com/youtube/v3/channels?part=snippet&mine=true',
-    authHeader: (token: string) => `Bearer ${token}`,
-  },
-  spotify: {
-    url: 'https://api.spotify.com/v1/me',
-    authHeader: (token: string) => `Bearer ${token}`,
-  },
-  discord: {
-    url: 'https://discord.com/api/users/@me',
-    authHeader: (token: string) => `Bearer ${token}`,
-  },
-  twitch: {
-    url: 'https://api.twitch.tv/helix/users',
-    authHeader: (token: string) => `Bearer ${token}`,
-    requiresClientId: true,
-  },
-  twitter: {
-    url: 'https://api.twitter.com/2/users/me',
-    authHeader: (token: string) => `Bearer ${token}`,
-  },
-} as const
-
-export type OAuthPlatform = keyof typeof OAUTH_ENDPOINTS
-
-export interface OAuthVerificationResult {
-  valid: boolean
-  userId?: string
-  username?: string
-  error?: string
+import { BUILTIN_PLATFORM_PROVIDERS, type BuiltinPlatform } from '../platforms/providers'
+import { platformRegistry, type PlatformRegistry } from '../platforms/registry'
+import {
+  type OAuthPlatformProvider,
+  type PlatformCredentials,
+  type PlatformProvider,
+  type PlatformVerificationResult,
+  type VerificationInput,
+} from '../platforms/types'
+import { fromOAuthResponse, toErrorFields } from '../services/verifierErrors'
+
+type BuiltinOAuthPlatform = Extract<typeof BUILTIN_PLATFORM_PROVIDERS[number], OAuthPlatformProvider>['id']
+
+/**
+ * Endpoints of the built-in OAuth platforms (kept for backwards compatibility)
+ */
+export const OAUTH_ENDPOINTS = Object.fromEntries(
+  BUILTIN_PLATFORM_PROVIDERS.filter(isOAuthProvider).map((provider) => [
+    provider.id,
+    {
+      url: provider.endpoint,
+      authHeader: (token: string) => `Bearer ${token}`,
+      requiresClientId: provider.requiredCredentials?.includes('clientId') ?? false,
+    },
+  ])
+) as Record<BuiltinOAuthPlatform, { url: string; authHeader: (token: string) => string; requiresClientId: boolean }>
+
+export type OAuthPlatform = BuiltinPlatform | (string & {})
+
+export type OAuthVerificationResult = PlatformVerificationResult
+
+/**
+ * Whether a provider is verified through an OAuth endpoint
+ */
+export function isOAuthProvider<P extends PlatformProvider>(provider: P): provider is Extract<P, OAuthPlatformProvider> {
+  return !('verify' in provider)
 }
 
 /**
- * Verify OAuth token and retrieve user ID
+ * Verify a token (or signed payload) with a platform provider and retrieve the user ID
  */
-export async function verifyAndGetUserId(
-  platform: OAuthPlatform,
-  token: string,
-  clientId?: string
+export async function verifyWithProvider(
+  provider: PlatformProvider,
+  input: VerificationInput,
+  credentials: PlatformCredentials = {}
 ): Promise<OAuthVerificationResult> {
-  const endpoint = OAUTH_ENDPOINTS[platform]
-
-  try {
-    const headers: Record<string, string> = {
-      Authorization: endpoint.authHeader(token),
+  const missing = (provider.requiredCredentials ?? []).filter((name) => !credentials[name])
+  if (missing.length > 0) {
+    return {
+      valid: false,
+      error: `${provider.id} verification requires: ${missing.join(', ')}`,
+      errorCode: 'CREDENTIALS_MISSING',
     }
+  }
 
-    if (platform === 'twitch') {
-      if (!clientId) {
-        return { valid: false, error: 'Twitch Client ID required' }
-      }
-      headers['Client-Id'] = clientId
+  if (!isOAuthProvider(provider)) {
+    try {
+      return await provider.verify(input, credentials)
+    } catch (error) {
+      console.error(`[OAuth] ${provider.id}: Verification failed:`, error)
+      return { valid: false, error: error instanceof Error ? error.message : 'Unknown error', errorCode: 'UNKNOWN' }
     }
+  }
 
-    const response = await fetch(endpoint.url, { headers })
+  if (typeof input !== 'string') {
+    return { valid: false, error: `${provider.id} verification requires an OAuth token`, errorCode: 'INVALID_REQUEST' }
+  }
+
+  try {
+    const response = await fetch(provider.endpoint, {
+      headers: provider.buildHeaders(input, credentials),
+    })
 
     if (!response.ok) {
-      return { valid: false, error: `API returned ${response.status}` }
+      const { error, errorCode } = toErrorFields(fromOAuthResponse(provider.id, response, await response.text()))
+      return { valid: false, error, errorCode }
     }
 
     const data = await response.json()
+    const identity = provider.extractIdentity(data)
 
-    // Extract userId based on platform
-    let userId: string | undefined
-    let username: string | undefined
-
-    switch (platform) {
-      case 'discord':
-        // Discord: { id: "123456789", username: "user" }
-        userId = data.id
-        username = data.username
-        break
-      case 'youtube':
-        // YouTube: { items: [{ id: "UCxxxxx", snippet: { title: "Channel Name" } }] }
-        userId = data.items?.[0]?.id
-        username = data.items?.[0]?.snippet?.title
-        break
-      case 'spotify':
-        // Spotify: { id: "user123", display_name: "User Name" }
-        userId = data.id
-        username = data.display_name
-        break
-      case 'twitch':
-        // Twitch: { data: [{ id: "123456", login: "username" }] }
-        userId = data.data?.[0]?.id
-        username = data.data?.[0]?.login
-        break
-      case 'twitter':
-        // Twitter: { data: { id: "123456789", username: "user" } }
-        userId = data.data?.id
-        username = data.data?.username
-        break
+    if (!identity?.userId) {
+      return {
+        valid: false,
+        error: `Could not extract user ID from ${provider.id} response`,
+        errorCode: 'ACCOUNT_NOT_FOUND',
+      }
     }
 
-    if (!userId) {
-      return { valid: false, error: 'Could not extract user ID from response' }
+    return {
+      valid: true,
+      userId: identity.userId,
+      username: identity.username,
+      avatarUrl: identity.avatarUrl,
+      profileUrl: identity.profileUrl,
     }
-
-    return { valid: true, userId, username }
   } catch (error) {
-    console.error(`[OAuth] ${platform}: Verification failed:`, error)
-    return { valid: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    // fetch only throws when the API cannot be reached
+    console.error(`[OAuth] ${provider.id}: Verification failed:`, error)
+    return {
+      valid: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      errorCode: 'OAUTH_UNAVAILABLE',
+    }
+  }
+}
+
+/**
+ * Verify OAuth token and retrieve user ID
+ *
+ * `credentials` may be a plain string, treated as a client ID (legacy Twitch usage).
+ */
+export async function verifyAndGetUserId(
+  platform: OAuthPlatform,
+  token: VerificationInput,
+  credentials?: PlatformCredentials | string,
+  registry: PlatformRegistry = platformRegistry
+): Promise<OAuthVerificationResult> {
+  if (!registry.has(platform)) {
+    return { valid: false, error: `Unsupported platform: ${platform}`, errorCode: 'UNSUPPORTED_PLATFORM' }
   }
+
+  const resolved = typeof credentials === 'string' ? { clientId: credentials } : credentials
+  return await verifyWithProvider(registry.get(platform), token, resolved)
 }
 
 /**
@@ -117,33 +138,35 @@ export async function verifyAndGetUserId(
  */
 export async function verifyOAuthToken(
   platform: OAuthPlatform,
-  token: string,
-  clientId?: string
+  token: VerificationInput,
+  credentials?: PlatformCredentials | string,
+  registry: PlatformRegistry = platformRegistry
 ): Promise<boolean> {
-  const result = await verifyAndGetUserId(platform, token, clientId)
+  const result = await verifyAndGetUserId(platform, token, credentials, registry)
   return result.valid
 }
 
 /**
  * Verify multiple OAuth tokens in parallel
+ * Returns one entry per registered platform (false when no token was given).
+ *
+ * `credentials` may be a plain string, treated as the Twitch client ID (legacy usage).
  */
 export async function verifyAllTokens(
-  tokens: Partial<Record<OAuthPlatform, string>>,
-  twitchClientId?: string
-): Promise<Record<OAuthPlatform, boolean>> {
-  const results = await Promise.all([
-    tokens.youtube ? verifyOAuthToken('youtube', tokens.youtube) : false,
-    tokens.spotify ? verifyOAuthToken('spotify', tokens.spotify) : false,
-    tokens.discord ? verifyOAuthToken('discord', tokens.discord) : false,
-    tokens.twitch ? verifyOAuthToken('twitch', tokens.twitch, twitchClientId) : false,
-    tokens.twitter ? verifyOAuthToken('twitter', tokens.twitter) : false,
-  ])
-
-  return {
-    youtube: results[0],
-    spotify: results[1],
-    discord: results[2],
-    twitch: results[3],
-    twitter: results[4],
-  }
+  tokens: Partial<Record<OAuthPlatform, VerificationInput>>,
+  credentials: Partial<Record<OAuthPlatform, PlatformCredentials>> | string = {},
+  registry: PlatformRegistry = platformRegistry
+): Promise<Partial<Record<OAuthPlatform, boolean>>> {
+  const ids = registry.ids()
+  const resolved: Partial<Record<OAuthPlatform, PlatformCredentials>> =
+    typeof credentials === 'string' ? { twitch: { clientId: credentials } } : credentials
+
+  const results = await Promise.all(
+    ids.map((id) => {
+      const token = tokens[id]
+      return token ? verifyOAuthToken(id, token, resolved[id], registry) : false
+    })
+  )
+
+  return Object.fromEntries(ids.map((id, index) => [id, results[index]]))
 }
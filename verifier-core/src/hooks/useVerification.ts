@@ -10,13 +10,22 @@ import {
   BotVerifierService,
   type BotVerifierConfig,
   type LinkSocialResult,
+  type VerificationProfile,
+  type VerificationProfileOptions,
 } from '../services/BotVerifierService'
+import { type IssuedLinkChallenge, type WalletOwnershipProof } from '../services/walletChallenge'
 import { type SocialPlatform } from '../config/constants'
+import { type VerificationInput } from '../platforms/types'
 
 export interface UseVerificationConfig extends BotVerifierConfig {
   /** Wallet address (optional - will prompt for connection if not provided) */
   walletAddress?: `0x${string}`
-  /** Storage key for persisting verification state (optional) */
+  /**
+   * Only count triples created by these accounts (default: `trustedAttesters`,
+   * or the bot keys). 'any' also counts triples anyone created.
+   */
+  attesters?: VerificationProfileOptions['attesters']
+  /** @deprecated Verification state is read from the indexer; this is ignored */
   storageKey?: string
 }
 
@@ -29,8 +38,18 @@ export interface UseVerificationResult {
   isVerifying: boolean
   /** Error message if something went wrong */
   error: string | null
-  /** Link a social account */
-  linkSocialAccount: (platform: SocialPlatform, oauthToken: string) => Promise<LinkSocialResult>
+  /** Verified accounts of the wallet (null until loaded) */
+  profile: VerificationProfile | null
+  /** Reload the verification profile from the indexer */
+  refresh: () => Promise<void>
+  /** Request a wallet ownership challenge to sign before linking */
+  createLinkChallenge: (platform: SocialPlatform) => Promise<IssuedLinkChallenge>
+  /** Link a social account (OAuth token or Telegram login payload) using a signed wallet ownership challenge */
+  linkSocialAccount: (
+    platform: SocialPlatform,
+    credential: VerificationInput,
+    ownershipProof: WalletOwnershipProof
+  ) => Promise<LinkSocialResult>
   /** Reset the verification state */
   reset: () => void
 }
@@ -40,33 +59,54 @@ export const useVerification = (config: UseVerificationConfig): UseVerificationR
   const [canVerify, setCanVerify] = useState(false)
   const [isVerifying, setIsVerifying] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [profile, setProfile] = useState<VerificationProfile | null>(null)
   const [service] = useState(() => new BotVerifierService(config))
+  // Joined so an inline array does not trigger a reload on every render
+  const attesters = config.attesters === 'any' ? 'any' : config.attesters?.join(',')
 
   // Check if user can verify
   useEffect(() => {
     setCanVerify(!!config.walletAddress)
   }, [config.walletAddress])
 
-  // Load existing verification from storage
-  useEffect(() => {
-    if (!config.storageKey || typeof window === 'undefined') return
+  const refresh = useCallback(async (): Promise<void> => {
+    if (!config.walletAddress) {
+      setProfile(null)
+      setIsVerified(false)
+      return
+    }
 
     try {
-      const stored = localStorage.getItem(config.storageKey)
-      if (stored) {
-        const data = JSON.parse(stored)
-        if (data.walletAddress?.toLowerCase() === config.walletAddress?.toLowerCase()) {
-          setIsVerified(true)
-        }
-      }
-    } catch {
-      // Ignore storage errors
+      const loaded = await service.getVerificationProfile(config.walletAddress, {
+        attesters: attesters === 'any'
+          ? 'any'
+          : attesters ? attesters.split(',') as `0x${string}`[] : undefined,
+      })
+      setProfile(loaded)
+      setIsVerified(loaded.records.length > 0)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load verification profile')
     }
-  }, [config.storageKey, config.walletAddress])
+  }, [config.walletAddress, attesters, service])
+
+  // Load existing verifications from the indexer
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  const createLinkChallenge = useCallback(async (
+    platform: SocialPlatform
+  ): Promise<IssuedLinkChallenge> => {
+    if (!config.walletAddress) {
+      throw new Error('No wallet address provided')
+    }
+    return await service.createLinkChallenge(platform, config.walletAddress)
+  }, [config.walletAddress, service])
 
   const linkSocialAccount = useCallback(async (
     platform: SocialPlatform,
-    oauthToken: string
+    credential: VerificationInput,
+    ownershipProof: WalletOwnershipProof
   ): Promise<LinkSocialResult> => {
     if (!config.walletAddress) {
       return { success: false, error: 'No wallet address provided' }
@@ -79,22 +119,13 @@ export const useVerification = (config: UseVerificationConfig): UseVerificationR
       const result = await service.linkSocialAccount(
         platform,
         config.walletAddress,
-        oauthToken
+        credential,
+        ownershipProof
       )
 
       if (result.success) {
-        // Save to storage if configured
-        if (config.storageKey && typeof window !== 'undefined') {
-          const stored = localStorage.getItem(config.storageKey)
-          const data = stored ? JSON.parse(stored) : { walletAddress: config.walletAddress, links: {} }
-          data.links[platform] = {
-            userId: result.userId,
-            username: result.username,
-            txHash: result.txHash,
-            linkedAt: Date.now(),
-          }
-          localStorage.setItem(config.storageKey, JSON.stringify(data))
-        }
+        setIsVerified(true)
+        await refresh()
       } else {
         setError(result.error || 'Unknown error')
       }
@@ -107,22 +138,22 @@ export const useVerification = (config: UseVerificationConfig): UseVerificationR
     } finally {
       setIsVerifying(false)
     }
-  }, [config.walletAddress, config.storageKey, service])
+  }, [config.walletAddress, service, refresh])
 
   const reset = useCallback(() => {
     setIsVerified(false)
+    setProfile(null)
     setError(null)
-
-    if (config.storageKey && typeof window !== 'undefined') {
-      localStorage.removeItem(config.storageKey)
-    }
-  }, [config.storageKey])
+  }, [])
 
   return {
     isVerified,
     canVerify,
     isVerifying,
     error,
+    profile,
+    refresh,
+    createLinkChallenge,
     linkSocialAccount,
     reset,
   }
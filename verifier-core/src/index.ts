@@ -14,9 +14,139 @@ export type {
   BotVerificationRequest,
   BotVerificationResult,
   OAuthTokens,
-  LinkSocialResult,
 } from './services/BotVerifierService'
 
+// Shared linking engine (used by BotVerifierService and the Mastra workflow)
+export { SocialLinkEngine } from './services/SocialLinkEngine'
+export type {
+  SocialLinkEngineConfig,
+  LinkSocialRequest,
+  LinkSocialResult,
+  UniquenessCheckResult,
+  SocialLink,
+  SocialLinkLookupOptions,
+  SocialIdClaim,
+  SocialIdOwnership,
+  SocialIdLookupOptions,
+  VerificationProfile,
+  VerificationProfileOptions,
+  VerificationRecord,
+  ResolvedAtom,
+  ResolvedAtoms,
+  AtomCreationResult,
+  TripleCreationResult,
+  OnchainOptions,
+  AtomRole,
+  CostPreview,
+  VerificationQuote,
+  CurveDepositConfig,
+  CurveDepositResult,
+  PreflightResult,
+} from './services/SocialLinkEngine'
+
+// Bot transaction queue
+export { TransactionQueue, getTransactionQueue, TRANSACTION_QUEUE_CONFIG } from './services/transactionQueue'
+export type { QueuedTransaction, TransactionQueueOptions } from './services/transactionQueue'
+
+// Bot wallet pool (several bot keys)
+export { BotWalletPool, WALLET_POOL_CONFIG } from './services/walletPool'
+export type { BotSigner, SignerBalance, SignerSelection } from './services/walletPool'
+
+// MultiVault receipt events
+export { decodeMultiVaultEvents, depositsFor } from './services/multivaultEvents'
+export type {
+  AtomCreatedEvent,
+  MultiVaultEvents,
+  TermDeposit,
+  TripleCreatedEvent,
+} from './services/multivaultEvents'
+
+// Batched atom and triple creation
+export { CreationBatcher, BATCHING_CONFIG } from './services/creationBatcher'
+export type {
+  AtomBatchItem,
+  BatchingConfig,
+  BatchResult,
+  CreationBatcherOptions,
+  TripleBatchItem,
+} from './services/creationBatcher'
+
+// Bot balance monitoring
+export { BalanceMonitor, BALANCE_MONITOR_INTERVAL_MS } from './services/balanceMonitor'
+export type { BalanceMonitorConfig, BalanceStatus } from './services/balanceMonitor'
+
+// IPFS pinning
+export {
+  pinToIPFS,
+  resolveIpfsName,
+  IntuitionPinner,
+  KuboPinner,
+  LocalPinner,
+  computeCidV1,
+  serializeAtomMetadata,
+} from './services/ipfsPinning'
+export type {
+  PinMetadata,
+  AtomMetadata,
+  MetadataPinner,
+  KuboPinnerConfig,
+  LocalPinnerConfig,
+} from './services/ipfsPinning'
+
+// Deposit policy
+export { DEFAULT_DEPOSITS, resolveDeposit, withMinimumDeposit } from './services/depositPolicy'
+export type {
+  DepositAmounts,
+  DepositContext,
+  DepositNetwork,
+  DepositPolicy,
+  DepositRole,
+  DepositRules,
+  MultiVaultDepositLimits,
+} from './services/depositPolicy'
+
+// Typed errors
+export {
+  VERIFIER_ERROR_CODES,
+  VerifierException,
+  decodeMultiVaultError,
+  diagnoseRevertedTransaction,
+  formatContractError,
+  fromMultiVaultError,
+  toVerifierError,
+  toErrorFields,
+} from './services/verifierErrors'
+export type { VerifierError, VerifierErrorCode } from './services/verifierErrors'
+
+// Intuition GraphQL indexer
+export {
+  queryIndexer,
+  findTriplesBySubjectPredicate,
+  findTriplesBySubjectPredicates,
+  findTriplesByPredicateObjectLabel,
+  findTriplesByPredicateObjects,
+} from './services/intuitionIndexer'
+export type { IndexedTriple } from './services/intuitionIndexer'
+
+// Wallet ownership challenges
+export {
+  createLinkChallenge,
+  verifyWalletOwnership,
+  getLinkChallengeTypedData,
+  formatLinkChallengeMessage,
+  InMemoryNonceStore,
+  defaultNonceStore,
+  LINK_CHALLENGE_TYPES,
+} from './services/walletChallenge'
+export type {
+  LinkChallenge,
+  IssuedLinkChallenge,
+  ChallengeSignatureType,
+  WalletOwnershipProof,
+  WalletOwnershipResult,
+  NonceStore,
+} from './services/walletChallenge'
+
 // Backwards compatibility exports
 export {
   BotAttestorService,
@@ -32,6 +162,7 @@ export {
   mainnetConfig,
   intuitionTestnet,
   intuitionMainnet,
+  getChainConfig,
   GAS_CONFIG,
   getExplorerTxUrl,
   getExplorerAddressUrl,
@@ -49,8 +180,40 @@ export {
   TERM_ID_VERIFIED,
   PREDICATE_NAMES,
   INTUITION_GRAPHQL_ENDPOINT,
+  WALLET_CHALLENGE_CONFIG,
+  IPFS_GATEWAY_URL,
+  UNIQUENESS_CONFIG,
 } from './config/constants'
-export type { SocialPlatform } from './config/constants'
+export type { SocialPlatform, UniquenessPolicy } from './config/constants'
+
+// Platform providers
+export { PlatformRegistry, platformRegistry } from './platforms/registry'
+export {
+  BUILTIN_PLATFORM_PROVIDERS,
+  discordProvider,
+  youtubeProvider,
+  spotifyProvider,
+  twitchProvider,
+  twitterProvider,
+  githubProvider,
+} from './platforms/providers'
+export {
+  telegramProvider,
+  verifyTelegramLogin,
+  TELEGRAM_AUTH_MAX_AGE_SECONDS,
+} from './platforms/telegram'
+export type { TelegramAuthData } from './platforms/telegram'
+export type { BuiltinPlatform } from './platforms/providers'
+export type {
+  PlatformProvider,
+  OAuthPlatformProvider,
+  CustomPlatformProvider,
+  PlatformCredentials,
+  PlatformIdentity,
+  PlatformAuthData,
+  PlatformVerificationResult,
+  VerificationInput,
+} from './platforms/types'
 
 // OAuth utilities
 export {
@@ -58,8 +221,11 @@ export {
   verifyOAuthToken,
   verifyAllTokens,
   verifyAndGetUserId,
+  verifyWithProvider,
+  isOAuthProvider,
 } from './config/oauthEndpoints'
 export type { OAuthPlatform, OAuthVerificationResult } from './config/oauthEndpoints'
 
 // ABIs (for advanced usage)
 export { MultiVaultAbi } from './abi/MultiVault'
+export { BondingCurveRegistryAbi } from './abi/BondingCurveRegistry'
@@ -0,0 +1,152 @@
+/**
+ * Built-in Platform Providers
+ *
+ * Each OAuth provider returns user information when its endpoint is called
+ * with a valid OAuth access token. Telegram verifies a signed login payload
+ * instead (see ./telegram).
+ */
+
+import { type OAuthPlatformProvider } from './types'
+import { telegramProvider } from './telegram'
+
+const bearer = (token: string) => ({ Authorization: `Bearer ${token}` })
+
+const asString = (value: unknown): string | undefined =>
+  value !== undefined && value !== null && value !== '' ? String(value) : undefined
+
+/**
+ * Read a nested field of an API response, or undefined when the path does not exist
+ */
+const field = (data: unknown, ...path: (string | number)[]): unknown =>
+  path.reduce<unknown>(
+    (value, key) => (typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+    data
+  )
+
+const identity = (
+  userId: unknown,
+  username: unknown,
+  profile: { avatarUrl?: unknown; profileUrl?: unknown } = {}
+) => {
+  const id = asString(userId)
+  return id
+    ? {
+        userId: id,
+        username: asString(username),
+        avatarUrl: asString(profile.avatarUrl),
+        profileUrl: asString(profile.profileUrl),
+      }
+    : undefined
+}
+
+export const discordProvider: OAuthPlatformProvider<'discord'> = {
+  id: 'discord',
+  predicate: 'has verified discord id',
+  endpoint: 'https://discord.com/api/users/@me',
+  buildHeaders: bearer,
+  // Discord: { id: "123456789", username: "user", avatar: "a1b2c3..." }
+  extractIdentity: (data) => {
+    const id = asString(field(data, 'id'))
+    const avatar = asString(field(data, 'avatar'))
+    return identity(id, field(data, 'username'), {
+      avatarUrl: id && avatar ? `https://cdn.discordapp.com/avatars/${id}/${avatar}.png` : undefined,
+      profileUrl: id ? `https://discord.com/users/${id}` : undefined,
+    })
+  },
+}
+
+export const youtubeProvider: OAuthPlatformProvider<'youtube'> = {
+  id: 'youtube',
+  predicate: 'has verified youtube id',
+  endpoint: 'https://www.googleapis.com/youtube/v3/channels?part=snippet&mine=true',
+  buildHeaders: bearer,
+  // YouTube: { items: [{ id: "UCxxxxx", snippet: { title: "Channel Name", thumbnails: { ... } } }] }
+  extractIdentity: (data) => {
+    const channel = field(data, 'items', 0)
+    const id = asString(field(channel, 'id'))
+    const thumbnails = field(channel, 'snippet', 'thumbnails')
+    return identity(id, field(channel, 'snippet', 'title'), {
+      avatarUrl: field(thumbnails, 'high', 'url') ?? field(thumbnails, 'medium', 'url') ?? field(thumbnails, 'default', 'url'),
+      profileUrl: id ? `https://www.youtube.com/channel/${id}` : undefined,
+    })
+  },
+}
+
+export const spotifyProvider: OAuthPlatformProvider<'spotify'> = {
+  id: 'spotify',
+  predicate: 'has verified spotify id',
+  endpoint: 'https://api.spotify.com/v1/me',
+  buildHeaders: bearer,
+  // Spotify: { id: "user123", display_name: "User Name", images: [{ url }], external_urls: { spotify } }
+  extractIdentity: (data) => identity(field(data, 'id'), field(data, 'display_name'), {
+    avatarUrl: field(data, 'images', 0, 'url'),
+    profileUrl: field(data, 'external_urls', 'spotify'),
+  }),
+}
+
+export const twitchProvider: OAuthPlatformProvider<'twitch'> = {
+  id: 'twitch',
+  predicate: 'has verified twitch id',
+  endpoint: 'https://api.twitch.tv/helix/users',
+  buildHeaders: (token, credentials) => ({
+    ...bearer(token),
+    'Client-Id': credentials.clientId ?? '',
+  }),
+  // Twitch: { data: [{ id: "123456", login: "username", profile_image_url: "https://..." }] }
+  extractIdentity: (data) => {
+    const user = field(data, 'data', 0)
+    const login = asString(field(user, 'login'))
+    return identity(field(user, 'id'), login, {
+      avatarUrl: field(user, 'profile_image_url'),
+      profileUrl: login ? `https://www.twitch.tv/${login}` : undefined,
+    })
+  },
+  requiredCredentials: ['clientId'],
+}
+
+export const twitterProvider: OAuthPlatformProvider<'twitter'> = {
+  id: 'twitter',
+  predicate: 'has verified twitter id',
+  endpoint: 'https://api.twitter.com/2/users/me?user.fields=profile_image_url',
+  buildHeaders: bearer,
+  // Twitter: { data: { id: "123456789", username: "user", profile_image_url: "https://..." } }
+  extractIdentity: (data) => {
+    const username = asString(field(data, 'data', 'username'))
+    return identity(field(data, 'data', 'id'), username, {
+      avatarUrl: field(data, 'data', 'profile_image_url'),
+      profileUrl: username ? `https://x.com/${username}` : undefined,
+    })
+  },
+}
+
+export const githubProvider: OAuthPlatformProvider<'github'> = {
+  id: 'github',
+  predicate: 'has verified github id',
+  endpoint: 'https://api.github.com/user',
+  // GitHub rejects API requests without a User-Agent
+  buildHeaders: (token) => ({
+    ...bearer(token),
+    Accept: 'application/vnd.github+json',
+    'User-Agent': 'Sofia-Verifier',
+  }),
+  // GitHub: { id: 1234567, login: "username", avatar_url, html_url } (login can change, id cannot)
+  extractIdentity: (data) => identity(field(data, 'id'), field(data, 'login'), {
+    avatarUrl: field(data, 'avatar_url'),
+    profileUrl: field(data, 'html_url'),
+  }),
+}
+
+/**
+ * Providers registered by default
+ */
+export const BUILTIN_PLATFORM_PROVIDERS = [
+  youtubeProvider,
+  spotifyProvider,
+  discordProvider,
+  twitchProvider,
+  twitterProvider,
+  githubProvider,
+  telegramProvider,
+] as const
+
+export type BuiltinPlatform = typeof BUILTIN_PLATFORM_PROVIDERS[number]['id']
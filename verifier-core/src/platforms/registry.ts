@@ -0,0 +1,71 @@
+/**
+ * Platform Registry
+ *
+ * Single source of truth for supported platforms. The SDK, the Mastra
+ * workflow schema and verification results are all derived from it.
+ *
+ * Usage:
+ * platformRegistry.register({
+ *   id: 'gitlab',
+ *   predicate: 'has verified gitlab id',
+ *   endpoint: 'https://gitlab.com/api/v4/user',
+ *   buildHeaders: (token) => ({ Authorization: `Bearer ${token}` }),
+ *   extractIdentity: (data) => {
+ *     const user = data as { id?: number; username?: string } | null
+ *     return user?.id ? { userId: String(user.id), username: user.username } : undefined
+ *   },
+ * })
+ */
+
+import { type PlatformProvider } from './types'
+import { BUILTIN_PLATFORM_PROVIDERS } from './providers'
+
+export class PlatformRegistry {
+  private providers = new Map<string, PlatformProvider>()
+
+  constructor(providers: readonly PlatformProvider[] = []) {
+    providers.forEach((provider) => this.register(provider))
+  }
+
+  /**
+   * Add a provider (replaces any provider with the same ID)
+   */
+  register(provider: PlatformProvider): this {
+    if (!provider.id) {
+      throw new Error('Platform provider id is required')
+    }
+    this.providers.set(provider.id, provider)
+    return this
+  }
+
+  /**
+   * Get a provider, throwing if the platform is not registered
+   */
+  get(id: string): PlatformProvider {
+    const provider = this.providers.get(id)
+    if (!provider) {
+      throw new Error(`Unsupported platform: ${id}`)
+    }
+    return provider
+  }
+
+  has(id: string): boolean {
+    return this.providers.has(id)
+  }
+
+  /**
+   * Registered platform IDs, in registration order
+   */
+  ids(): string[] {
+    return [...this.providers.keys()]
+  }
+
+  list(): PlatformProvider[] {
+    return [...this.providers.values()]
+  }
+}
+
+/**
+ * Registry shared by every verifier in this process
+ */
+export const platformRegistry = new PlatformRegistry(BUILTIN_PLATFORM_PROVIDERS)
@@ -0,0 +1,116 @@
+/**
+ * Telegram Login Widget Provider
+ *
+ * Telegram does not issue OAuth access tokens. The Login Widget returns a
+ * payload (id, username, auth_date, hash...) signed with an HMAC whose key
+ * is derived from the bot token, so it is verified locally:
+ *
+ * secret_key = SHA256(bot_token)
+ * hash       = HMAC_SHA256(data_check_string, secret_key)
+ *
+ * where data_check_string is every received field except `hash`, sorted
+ * by key and formatted as "key=value" lines.
+ *
+ * See https://core.telegram.org/widgets/login#checking-authorization
+ */
+
+import { bytesToHex } from 'viem'
+import {
+  type CustomPlatformProvider,
+  type PlatformAuthData,
+  type PlatformVerificationResult,
+} from './types'
+
+/**
+ * Login payloads older than this are rejected (24 hours)
+ */
+export const TELEGRAM_AUTH_MAX_AGE_SECONDS = 86400
+
+export interface TelegramAuthData {
+  id: number | string
+  username?: string
+  first_name?: string
+  last_name?: string
+  photo_url?: string
+  auth_date: number | string
+  hash: string
+}
+
+/**
+ * Check the widget payload signature and freshness
+ */
+export async function verifyTelegramLogin(
+  authData: PlatformAuthData,
+  botToken: string,
+  maxAgeSeconds: number = TELEGRAM_AUTH_MAX_AGE_SECONDS
+): Promise<PlatformVerificationResult> {
+  const { hash, ...fields } = authData
+
+  if (typeof hash !== 'string' || !/^[0-9a-f]{64}$/i.test(hash)) {
+    return { valid: false, error: 'Telegram login hash is missing or malformed', errorCode: 'INVALID_REQUEST' }
+  }
+  if (!fields.id || !fields.auth_date) {
+    return { valid: false, error: 'Telegram login payload requires id and auth_date', errorCode: 'INVALID_REQUEST' }
+  }
+
+  const authDate = Number(fields.auth_date)
+  const now = Math.floor(Date.now() / 1000)
+  if (!Number.isFinite(authDate) || authDate > now + 60) {
+    return { valid: false, error: 'Telegram login auth_date is invalid', errorCode: 'INVALID_REQUEST' }
+  }
+  if (now - authDate > maxAgeSeconds) {
+    return { valid: false, error: 'Telegram login has expired', errorCode: 'OAUTH_EXPIRED' }
+  }
+
+  const dataCheckString = Object.keys(fields)
+    .filter((key) => fields[key] !== undefined && fields[key] !== null)
+    .sort()
+    .map((key) => `${key}=${fields[key]}`)
+    .join('\n')
+
+  const expected = await hmacSha256Hex(dataCheckString, botToken)
+  if (!timingSafeEqual(expected, hash.toLowerCase())) {
+    return { valid: false, error: 'Invalid Telegram login signature', errorCode: 'OAUTH_INVALID' }
+  }
+
+  return {
+    valid: true,
+    userId: String(fields.id),
+    username: fields.username !== undefined ? String(fields.username) : undefined,
+    avatarUrl: fields.photo_url !== undefined ? String(fields.photo_url) : undefined,
+    profileUrl: fields.username !== undefined ? `https://t.me/${fields.username}` : undefined,
+  }
+}
+
+export const telegramProvider: CustomPlatformProvider<'telegram'> = {
+  id: 'telegram',
+  predicate: 'has verified telegram id',
+  requiredCredentials: ['botToken'],
+  verify: async (input, credentials) => {
+    if (typeof input === 'string') {
+      return {
+        valid: false,
+        error: 'Telegram verification requires the Login Widget payload',
+        errorCode: 'INVALID_REQUEST',
+      }
+    }
+    return await verifyTelegramLogin(input, credentials.botToken ?? '')
+  },
+}
+
+async function hmacSha256Hex(message: string, botToken: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const secretKey = await crypto.subtle.digest('SHA-256', encoder.encode(botToken))
+  const key = await crypto.subtle.importKey('raw', secretKey, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message))
+  return bytesToHex(new Uint8Array(signature)).slice(2)
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
@@ -0,0 +1,85 @@
+/**
+ * Platform Provider Types
+ *
+ * A provider describes how to verify an account on one social platform.
+ * Register one with `platformRegistry.register()` to add a platform
+ * without editing the SDK or the workflow.
+ */
+
+import { type VerifierErrorCode } from '../services/verifierErrors'
+
+/**
+ * Credentials a provider needs besides the user's input (e.g. a Twitch client ID)
+ */
+export type PlatformCredentials = Record<string, string | undefined>
+
+/**
+ * Account identity extracted from a platform API response
+ */
+export interface PlatformIdentity {
+  /** Permanent account ID (used as the social atom label) */
+  userId: string
+  /** Display name or handle */
+  username?: string
+  /** Avatar image URL */
+  avatarUrl?: string
+  /** Canonical profile page URL */
+  profileUrl?: string
+}
+
+/**
+ * Signed login payload for platforms without OAuth tokens
+ * (e.g. the Telegram Login Widget: id, username, auth_date, hash)
+ */
+export type PlatformAuthData = Record<string, string | number>
+
+/**
+ * What the user proves account ownership with: an OAuth access token
+ * or a signed login payload
+ */
+export type VerificationInput = string | PlatformAuthData
+
+export interface PlatformVerificationResult {
+  valid: boolean
+  userId?: string
+  username?: string
+  avatarUrl?: string
+  profileUrl?: string
+  error?: string
+  errorCode?: VerifierErrorCode
+}
+
+interface PlatformProviderBase<Id extends string> {
+  /** Platform ID used in requests and results (e.g. "discord") */
+  id: Id
+  /** Predicate atom label, e.g. "has verified discord id" */
+  predicate: string
+  /** Credential names that must be configured (e.g. ["clientId"]) */
+  requiredCredentials?: readonly string[]
+}
+
+/**
+ * Provider verified by calling the platform API with an OAuth access token
+ */
+export interface OAuthPlatformProvider<Id extends string = string> extends PlatformProviderBase<Id> {
+  /** API endpoint returning the authenticated user */
+  endpoint: string
+  /** Build request headers for the endpoint */
+  buildHeaders: (token: string, credentials: PlatformCredentials) => Record<string, string>
+  /**
+   * Extract userId/username (and avatar/profile URLs) from the endpoint response
+   * The response is untrusted JSON: check its shape before reading it.
+   */
+  extractIdentity: (data: unknown) => PlatformIdentity | undefined
+}
+
+/**
+ * Provider that verifies its own input (e.g. a signed login payload checked locally)
+ */
+export interface CustomPlatformProvider<Id extends string = string> extends PlatformProviderBase<Id> {
+  verify: (input: VerificationInput, credentials: PlatformCredentials) => Promise<PlatformVerificationResult>
+}
+
+export type PlatformProvider<Id extends string = string> =
+  | OAuthPlatformProvider<Id>
+  | CustomPlatformProvider<Id>
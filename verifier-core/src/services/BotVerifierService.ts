@@ -10,29 +10,57 @@
  * - Creates triples: [wallet] [has verified {platform} id] [userId]
  * - Each platform has its own predicate atom
  * - Social atom uses IPFS URI with name=userId for correct label
+ * - Users prove wallet ownership by signing a single-use challenge
  */
 
-import {
-  createPublicClient,
-  createWalletClient,
-  http,
-  stringToHex,
-  encodeFunctionData,
-  type PublicClient,
-  type WalletClient,
-  type Address,
-} from 'viem'
-import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts'
+import { type PublicClient, type Address } from 'viem'
+import { type PrivateKeyAccount } from 'viem/accounts'
 import { type ChainConfiguration } from '../config/chainConfig'
-import { MultiVaultAbi } from '../abi/MultiVault'
 import {
-  PREDICATE_NAMES,
   INTUITION_GRAPHQL_ENDPOINT,
-  BOT_DEPOSIT_CONFIG,
-  GAS_LIMITS,
   type SocialPlatform,
+  type UniquenessPolicy,
 } from '../config/constants'
-import { verifyAndGetUserId, type OAuthPlatform } from '../config/oauthEndpoints'
+import { verifyAllTokens } from '../config/oauthEndpoints'
+import { type PlatformRegistry } from '../platforms/registry'
+import { type PlatformCredentials, type PlatformIdentity, type VerificationInput } from '../platforms/types'
+import { type DepositPolicy } from './depositPolicy'
+import {
+  SocialLinkEngine,
+  type CurveDepositConfig,
+  type LinkSocialResult,
+  type SocialLink,
+  type SocialLinkLookupOptions,
+  type SocialIdLookupOptions,
+  type SocialIdOwnership,
+  type SocialLinkEngineConfig,
+  type VerificationProfile,
+  type VerificationProfileOptions,
+  type VerificationQuote,
+} from './SocialLinkEngine'
+import { type MetadataPinner } from './ipfsPinning'
+import {
+  type IssuedLinkChallenge,
+  type NonceStore,
+  type WalletOwnershipProof,
+} from './walletChallenge'
+import { type SignerBalance } from './walletPool'
+import { type BatchingConfig } from './creationBatcher'
+
+export type {
+  LinkSocialResult,
+  OnchainOptions,
+  SocialLink,
+  SocialLinkLookupOptions,
+  SocialIdClaim,
+  SocialIdLookupOptions,
+  SocialIdOwnership,
+  VerificationProfile,
+  VerificationProfileOptions,
+  VerificationRecord,
+  VerificationQuote,
+  CostPreview,
+} from './SocialLinkEngine'
 
 // ============================================================
 // Types
@@ -41,21 +69,48 @@ import { verifyAndGetUserId, type OAuthPlatform } from '../config/oauthEndpoints
 export interface BotVerifierConfig {
   /** Bot's private key (from environment) */
   botPrivateKey: `0x${string}`
+  /** Extra bot keys; verifications are spread over all keys */
+  botPrivateKeys?: `0x${string}`[]
   /** Chain configuration */
   chainConfig: ChainConfiguration
+  /** Platforms that can be linked (default: shared `platformRegistry`) */
+  platforms?: PlatformRegistry
+  /** Provider credentials keyed by platform, e.g. { twitch: { clientId } } */
+  credentials?: Partial<Record<SocialPlatform, PlatformCredentials>>
   /** Twitch Client ID for OAuth verification */
   twitchClientId?: string
   /** Use mainnet GraphQL endpoint (default: true) */
   useMainnet?: boolean
+  /** Pin avatar and profile URL with the social atom (default: false) */
+  richMetadata?: boolean
+  /** Where social atom metadata is pinned (default: Intuition's pinThing) */
+  pinner?: MetadataPinner
+  /** IPFS gateway for resolving social atom labels (default: IPFS_GATEWAY_URL) */
+  ipfsGatewayUrl?: string
+  /** How many wallets may link the same social account (default: one-active) */
+  uniquenessPolicy?: UniquenessPolicy
+  /** Accounts whose triples count as claims (default: every bot key) */
+  trustedAttesters?: `0x${string}`[]
+  /** Whether an existing claim was revoked (require-revocation policy) */
+  isClaimRevoked?: SocialLinkEngineConfig['isClaimRevoked']
+  /** Store for wallet challenge nonces (default: shared in-memory store) */
+  nonceStore?: NonceStore
+  /** Refuse links whose quoted cost (in wei) exceeds this */
+  maxVerificationCost?: bigint
+  /** Deposits per platform, atom role or network (default: BOT_DEPOSIT_CONFIG) */
+  depositPolicy?: DepositPolicy
+  /** Extra triple stake on another bonding curve */
+  curveDeposit?: CurveDepositConfig
+  /** Balance (wei) the bot must keep; verifications that would dip below it are rejected */
+  minBotReserve?: bigint
+  /** Create the atoms and triples of concurrent verifications in combined transactions (default: off) */
+  batching?: BatchingConfig
 }
 
-export interface OAuthTokens {
-  youtube?: string
-  spotify?: string
-  discord?: string
-  twitch?: string
-  twitter?: string
-}
+/**
+ * OAuth tokens (or signed login payloads, e.g. Telegram) keyed by platform ID
+ */
+export type OAuthTokens = Partial<Record<SocialPlatform, VerificationInput>>
 
 export interface BotVerificationRequest {
   /** User's wallet address to receive the verification */
@@ -66,155 +121,14 @@ export interface BotVerificationRequest {
 
 export interface BotVerificationResult {
   success: boolean
-  verified: {
-    youtube: boolean
-    spotify: boolean
-    discord: boolean
-    twitch: boolean
-    twitter: boolean
-  }
+  /** One entry per registered platform */
+  verified: Partial<Record<SocialPlatform, boolean>>
   verifiedCount: number
   txHashes?: string[]
   blockNumber?: number
   error?: string
 }
 
-export interface LinkSocialResult {
-  success: boolean
-  platform?: SocialPlatform
-  userId?: string
-  username?: string
-  txHash?: string
-  walletAtomCreated?: boolean
-  predicateAtomCreated?: boolean
-  socialAtomCreated?: boolean
-  error?: string
-}
-
-// ============================================================
-// IPFS Pinning
-// ============================================================
-
-/**
- * Pin data to IPFS via Intuition's pinThing mutation
- * Returns the IPFS URI that will be used as the atom data
- * The `name` parameter becomes the atom's label on-chain
- */
-async function pinToIPFS(
-  name: string,
-  description: string,
-  graphqlEndpoint: string
-): Promise<string> {
-  const mutation = `
-    mutation PinThing($thing: PinThingInput!) {
-      pinThing(thing: $thing) {
-        uri
-      }
-    }
-  `
-
-  const response = await fetch(graphqlEndpoint, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      query: mutation,
-      variables: {
-        thing: {
-          name,
-          description,
-          image: '',
-          url: ''
-        }
-      }
-    })
-  })
-
-  if (!response.ok) {
-    throw new Error(`IPFS pinning failed: ${response.status}`)
-  }
-
-  const result = await response.json()
-
-  if (result.errors) {
-    throw new Error(`IPFS pinning error: ${result.errors[0].message}`)
-  }
-
-  const uri = result.data?.pinThing?.uri
-  if (!uri) {
-    throw new Error('No IPFS URI returned from pinThing')
-  }
-
-  return uri
-}
-
-// ============================================================
-// OAuth Verification Functions
-// ============================================================
-
-async function verifyYouTubeToken(token: string): Promise<boolean> {
-  try {
-    const res = await fetch('https://www.googleapis.com/youtube/v3/channels?part=snippet&mine=true', {
-      headers: { Authorization: `Bearer ${token}` },
-    })
-    return res.ok
-  } catch {
-    return false
-  }
-}
-
-async function verifySpotifyToken(token: string): Promise<boolean> {
-  try {
-    const res = await fetch('https://api.spotify.com/v1/me', {
-      headers: { Authorization: `Bearer ${token}` },
-    })
-    return res.ok
-  } catch {
-    return false
-  }
-}
-
-async function verifyDiscordToken(token: string): Promise<boolean> {
-  try {
-    const res = await fetch('https://discord.com/api/users/@me', {
-      headers: { Authorization: `Bearer ${token}` },
-    })
-    return res.ok
-  } catch {
-    return false
-  }
-}
-
-async function verifyTwitchToken(token: string, clientId?: string): Promise<boolean> {
-  if (!clientId) {
-    console.warn('[BotVerifierService] TWITCH_CLIENT_ID not provided')
-    return false
-  }
-  try {
-    const res = await fetch('https://api.twitch.tv/helix/users', {
-      headers: {
-        Authorization: `Bearer ${token}`,
-        'Client-Id': clientId,
-      },
-    })
-    return res.ok
-  } catch {
-    return false
-  }
-}
-
-async function verifyTwitterToken(token: string): Promise<boolean> {
-  try {
-    const res = await fetch('https://api.twitter.com/2/users/me', {
-      headers: { Authorization: `Bearer ${token}` },
-    })
-    return res.ok
-  } catch {
-    return false
-  }
-}
-
 // ============================================================
 // Service Implementation
 // ============================================================
@@ -222,9 +136,8 @@ async function verifyTwitterToken(token: string): Promise<boolean> {
 export class BotVerifierService {
   private config: BotVerifierConfig
   private publicClient: PublicClient
-  private walletClient: WalletClient
   private account: PrivateKeyAccount
-  private graphqlEndpoint: string
+  private engine: SocialLinkEngine
 
   constructor(config: BotVerifierConfig) {
     if (!config.botPrivateKey) {
@@ -232,21 +145,31 @@ export class BotVerifierService {
     }
 
     this.config = config
-    this.account = privateKeyToAccount(config.botPrivateKey)
-    this.graphqlEndpoint = config.useMainnet !== false
-      ? INTUITION_GRAPHQL_ENDPOINT.mainnet
-      : INTUITION_GRAPHQL_ENDPOINT.testnet
-
-    this.publicClient = createPublicClient({
-      chain: config.chainConfig.chain,
-      transport: http(config.chainConfig.rpcUrl),
-    })
-
-    this.walletClient = createWalletClient({
-      account: this.account,
-      chain: config.chainConfig.chain,
-      transport: http(config.chainConfig.rpcUrl),
+    this.engine = new SocialLinkEngine({
+      botPrivateKey: config.botPrivateKey,
+      botPrivateKeys: config.botPrivateKeys,
+      chainConfig: config.chainConfig,
+      platforms: config.platforms,
+      credentials: config.credentials,
+      twitchClientId: config.twitchClientId,
+      graphqlEndpoint: config.useMainnet !== false
+        ? INTUITION_GRAPHQL_ENDPOINT.mainnet
+        : INTUITION_GRAPHQL_ENDPOINT.testnet,
+      richMetadata: config.richMetadata,
+      pinner: config.pinner,
+      ipfsGatewayUrl: config.ipfsGatewayUrl,
+      uniquenessPolicy: config.uniquenessPolicy,
+      trustedAttesters: config.trustedAttesters,
+      isClaimRevoked: config.isClaimRevoked,
+      nonceStore: config.nonceStore,
+      maxVerificationCost: config.maxVerificationCost,
+      depositPolicy: config.depositPolicy,
+      curveDeposit: config.curveDeposit,
+      minBotReserve: config.minBotReserve,
+      batching: config.batching,
     })
+    this.account = this.engine.account
+    this.publicClient = this.engine.publicClient
 
     console.log(`[BotVerifierService] Initialized with bot address: ${this.account.address}`)
   }
@@ -258,11 +181,25 @@ export class BotVerifierService {
     return this.account.address
   }
 
+  /**
+   * Get every bot signer address (the primary first)
+   */
+  getBotAddresses(): Address[] {
+    return this.engine.pool.addresses
+  }
+
   /**
    * Get the bot's current balance
    */
   async getBotBalance(): Promise<bigint> {
-    return await this.publicClient.getBalance({ address: this.account.address })
+    return await this.engine.getBotBalance()
+  }
+
+  /**
+   * Get the balance and in-flight transactions of every bot signer
+   */
+  async getBotBalances(): Promise<SignerBalance[]> {
+    return await this.engine.getBotBalances()
   }
 
   /**
@@ -272,261 +209,118 @@ export class BotVerifierService {
     verified: BotVerificationResult['verified']
     verifiedCount: number
   }> {
-    const [youtube, spotify, discord, twitch, twitter] = await Promise.all([
-      tokens.youtube ? verifyYouTubeToken(tokens.youtube) : false,
-      tokens.spotify ? verifySpotifyToken(tokens.spotify) : false,
-      tokens.discord ? verifyDiscordToken(tokens.discord) : false,
-      tokens.twitch ? verifyTwitchToken(tokens.twitch, this.config.twitchClientId) : false,
-      tokens.twitter ? verifyTwitterToken(tokens.twitter) : false,
-    ])
+    const platforms = this.engine.platforms
+    const credentials = Object.fromEntries(
+      platforms.ids().map((id) => [id, this.engine.getCredentials(id)])
+    )
 
-    const verified = { youtube, spotify, discord, twitch, twitter }
+    const verified = await verifyAllTokens(tokens, credentials, platforms)
     const verifiedCount = Object.values(verified).filter(Boolean).length
 
     return { verified, verifiedCount }
   }
 
+  /**
+   * Issue a wallet ownership challenge for the user to sign
+   * The signed challenge must be passed to `linkSocialAccount`.
+   */
+  async createLinkChallenge(
+    platform: SocialPlatform,
+    walletAddress: `0x${string}`
+  ): Promise<IssuedLinkChallenge> {
+    return await this.engine.createLinkChallenge(platform, walletAddress)
+  }
+
   /**
    * Link a single social account to a wallet
    * Creates triple: [wallet] [has verified {platform} id] [userId]
    *
    * Uses IPFS pinning for proper atom labels.
+   * `credential` is the OAuth token, or the signed login payload for Telegram.
+   * With `options.dryRun` every transaction is simulated but none is sent.
    */
   async linkSocialAccount(
     platform: SocialPlatform,
     walletAddress: `0x${string}`,
-    oauthToken: string
+    credential: VerificationInput,
+    ownershipProof: WalletOwnershipProof,
+    options: { dryRun?: boolean } = {}
   ): Promise<LinkSocialResult> {
-    console.log(`[BotVerifierService] Linking ${platform} account to ${walletAddress}`)
-
-    // Step 1: Verify token and get userId
-    const verification = await verifyAndGetUserId(platform as OAuthPlatform, oauthToken, this.config.twitchClientId)
-
-    if (!verification.valid || !verification.userId) {
-      return {
-        success: false,
-        error: verification.error || 'Invalid OAuth token',
-      }
-    }
-
-    const { userId, username } = verification
-    console.log(`[BotVerifierService] Verified ${platform} account: ${username} (${userId})`)
-
-    try {
-      // Step 2: Pin social atom to IPFS (name=userId for correct label)
-      const socialDescription = `Verified ${platform} account ID`
-      console.log(`[BotVerifierService] Pinning social atom to IPFS: name=${userId}`)
-      const socialIpfsUri = await pinToIPFS(userId, socialDescription, this.graphqlEndpoint)
-      console.log(`[BotVerifierService] Social atom IPFS URI: ${socialIpfsUri}`)
-
-      // Step 3: Prepare atom data
-      const walletAtomData = stringToHex(walletAddress)
-      const predicateName = PREDICATE_NAMES[platform]
-      const predicateDataHex = stringToHex(predicateName)
-      const socialAtomDataHex = stringToHex(socialIpfsUri)
-
-      console.log(`[BotVerifierService] Predicate: ${predicateName}`)
-
-      // Step 4: Calculate atom IDs
-      const [walletAtomId, predicateAtomId, socialAtomId] = await Promise.all([
-        this.publicClient.readContract({
-          address: this.config.chainConfig.multivaultAddress,
-          abi: MultiVaultAbi,
-          functionName: 'calculateAtomId',
-          args: [walletAtomData],
-        }) as Promise<`0x${string}`>,
-        this.publicClient.readContract({
-          address: this.config.chainConfig.multivaultAddress,
-          abi: MultiVaultAbi,
-          functionName: 'calculateAtomId',
-          args: [predicateDataHex],
-        }) as Promise<`0x${string}`>,
-        this.publicClient.readContract({
-          address: this.config.chainConfig.multivaultAddress,
-          abi: MultiVaultAbi,
-          functionName: 'calculateAtomId',
-          args: [socialAtomDataHex],
-        }) as Promise<`0x${string}`>,
-      ])
-
-      console.log(`[BotVerifierService] Wallet atom ID: ${walletAtomId}`)
-      console.log(`[BotVerifierService] Predicate atom ID: ${predicateAtomId}`)
-      console.log(`[BotVerifierService] Social atom ID: ${socialAtomId}`)
-
-      // Step 5: Check which atoms exist
-      const [walletAtomExists, predicateAtomExists, socialAtomExists] = await Promise.all([
-        this.publicClient.readContract({
-          address: this.config.chainConfig.multivaultAddress,
-          abi: MultiVaultAbi,
-          functionName: 'isTermCreated',
-          args: [walletAtomId],
-        }) as Promise<boolean>,
-        this.publicClient.readContract({
-          address: this.config.chainConfig.multivaultAddress,
-          abi: MultiVaultAbi,
-          functionName: 'isTermCreated',
-          args: [predicateAtomId],
-        }) as Promise<boolean>,
-        this.publicClient.readContract({
-          address: this.config.chainConfig.multivaultAddress,
-          abi: MultiVaultAbi,
-          functionName: 'isTermCreated',
-          args: [socialAtomId],
-        }) as Promise<boolean>,
-      ])
-
-      console.log(`[BotVerifierService] Wallet atom exists: ${walletAtomExists}`)
-      console.log(`[BotVerifierService] Predicate atom exists: ${predicateAtomExists}`)
-      console.log(`[BotVerifierService] Social atom exists: ${socialAtomExists}`)
-
-      // Get costs from contract
-      const [atomCost, tripleCost] = await Promise.all([
-        this.publicClient.readContract({
-          address: this.config.chainConfig.multivaultAddress,
-          abi: MultiVaultAbi,
-          functionName: 'getAtomCost',
-        }) as Promise<bigint>,
-        this.publicClient.readContract({
-          address: this.config.chainConfig.multivaultAddress,
-          abi: MultiVaultAbi,
-          functionName: 'getTripleCost',
-        }) as Promise<bigint>,
-      ])
-
-      let walletAtomCreated = false
-      let predicateAtomCreated = false
-      let socialAtomCreated = false
-
-      // Step 6: Create wallet atom if needed
-      if (!walletAtomExists) {
-        console.log('[BotVerifierService] Creating wallet atom...')
-        await this.createAtomWithData(walletAtomData, atomCost)
-        walletAtomCreated = true
-      }
-
-      // Step 7: Create predicate atom if needed
-      if (!predicateAtomExists) {
-        console.log(`[BotVerifierService] Creating predicate atom: ${predicateName}`)
-        await this.createAtomWithData(predicateDataHex, atomCost)
-        predicateAtomCreated = true
-      }
-
-      // Step 8: Create social atom if needed
-      if (!socialAtomExists) {
-        console.log(`[BotVerifierService] Creating social atom: ${userId}`)
-        await this.createAtomWithData(socialAtomDataHex, atomCost)
-        socialAtomCreated = true
-      }
-
-      // Step 9: Create the triple
-      console.log(`[BotVerifierService] Creating triple: [${walletAddress}] [${predicateName}] [${userId}]`)
-
-      const tripleDepositAmount = tripleCost + BOT_DEPOSIT_CONFIG.TRIPLE_EXTRA
-
-      const tripleCallData = encodeFunctionData({
-        abi: MultiVaultAbi,
-        functionName: 'createTriples',
-        args: [
-          [walletAtomId],
-          [predicateAtomId],
-          [socialAtomId],
-          [tripleDepositAmount],
-        ],
-      })
-
-      const txHash = await this.walletClient.sendTransaction({
-        to: this.config.chainConfig.multivaultAddress,
-        data: tripleCallData,
-        value: tripleDepositAmount,
-        gas: GAS_LIMITS.TRIPLE_CREATION,
-      })
-
-      console.log(`[BotVerifierService] Triple TX: ${txHash}`)
-      const receipt = await this.publicClient.waitForTransactionReceipt({ hash: txHash })
-
-      if (receipt.status !== 'success') {
-        return {
-          success: false,
-          platform,
-          userId,
-          username,
-          walletAtomCreated,
-          predicateAtomCreated,
-          socialAtomCreated,
-          error: `Triple creation failed. TX: ${txHash}`,
-        }
-      }
-
-      console.log(`[BotVerifierService] Triple created in block ${receipt.blockNumber}`)
-
-      return {
-        success: true,
-        platform,
-        userId,
-        username,
-        txHash,
-        walletAtomCreated,
-        predicateAtomCreated,
-        socialAtomCreated,
-      }
-    } catch (error) {
-      console.error('[BotVerifierService] Link error:', error)
-
-      const errorMessage = error instanceof Error ? error.message : String(error)
-
-      // Check if atom already exists (account already linked)
-      if (errorMessage.includes('AtomExists') || errorMessage.includes('Atom exists')) {
-        return {
-          success: false,
-          error: `This ${platform} account is already linked to another wallet`,
-        }
-      }
-
-      return {
-        success: false,
-        error: errorMessage,
-      }
-    }
+    console.log(`[BotVerifierService] ${options.dryRun ? 'Dry run: linking' : 'Linking'} ${platform} account to ${walletAddress}`)
+
+    return await this.engine.link({
+      platform,
+      walletAddress,
+      ...(typeof credential === 'string' ? { oauthToken: credential } : { authData: credential }),
+      ownershipProof,
+      dryRun: options.dryRun,
+    })
   }
 
   /**
-   * Create a single atom with given data
+   * Get a user's linked social account for a specific platform
+   * Returns the userId, triple ID, creation block and vault stake, or null.
+   * Only triples created by `trustedAttesters` (default: the bot keys) count.
+   * Pass `options.socialAtomUri` (or `options.userId`, with a pinner that has
+   * `uri`) to allow an on-chain check when the indexer is down; that check
+   * cannot tell who created the triple.
    */
-  private async createAtomWithData(atomDataHex: `0x${string}`, atomCost: bigint): Promise<string> {
-    const atomTotalValue = atomCost + BOT_DEPOSIT_CONFIG.ATOM_DEPOSIT
-
-    const atomCallData = encodeFunctionData({
-      abi: MultiVaultAbi,
-      functionName: 'createAtoms',
-      args: [[atomDataHex], [atomTotalValue]],
-    })
-
-    const txHash = await this.walletClient.sendTransaction({
-      to: this.config.chainConfig.multivaultAddress,
-      data: atomCallData,
-      value: atomTotalValue,
-      gas: GAS_LIMITS.ATOM_CREATION,
-    })
+  async getSocialLink(
+    platform: SocialPlatform,
+    walletAddress: `0x${string}`,
+    options?: SocialLinkLookupOptions
+  ): Promise<SocialLink | null> {
+    return await this.engine.getSocialLink(platform, walletAddress, options)
+  }
 
-    console.log(`[BotVerifierService] Atom TX: ${txHash}`)
-    const receipt = await this.publicClient.waitForTransactionReceipt({ hash: txHash })
+  /**
+   * Every verified social account of a wallet, across all platforms
+   * Only triples created by `trustedAttesters` (default: the bot keys) count,
+   * unless `options.attesters` says otherwise.
+   */
+  async getVerificationProfile(
+    walletAddress: `0x${string}`,
+    options?: VerificationProfileOptions
+  ): Promise<VerificationProfile> {
+    return await this.engine.getVerificationProfile(walletAddress, options)
+  }
 
-    if (receipt.status !== 'success') {
-      throw new Error(`Atom creation failed: ${txHash}`)
-    }
+  /**
+   * Quote the TRUST, fees and shares of linking an account
+   * Pass the account's `profile` when `richMetadata` is enabled.
+   */
+  async quoteVerification(
+    platform: SocialPlatform,
+    walletAddress: `0x${string}`,
+    userId: string,
+    profile?: Pick<PlatformIdentity, 'avatarUrl' | 'profileUrl'>
+  ): Promise<VerificationQuote> {
+    return await this.engine.quoteVerification(platform, walletAddress, userId, profile)
+  }
 
-    console.log(`[BotVerifierService] Atom created in block ${receipt.blockNumber}`)
-    return txHash
+  /**
+   * Which wallets are linked to a platform account (e.g. Discord user 1234)
+   * Only triples created by `trustedAttesters` (default: the bot keys) count,
+   * unless `options.attesters` says otherwise.
+   */
+  async findWalletsForSocialId(
+    platform: SocialPlatform,
+    userId: string,
+    options?: SocialIdLookupOptions
+  ): Promise<SocialIdOwnership> {
+    return await this.engine.findWalletsForSocialId(platform, userId, options)
   }
 
   /**
    * Check if a user has a linked social account for a specific platform
    */
-  async hasSocialLink(platform: SocialPlatform, walletAddress: string): Promise<boolean> {
-    // This would require querying the GraphQL endpoint to check for triples
-    // For now, return false (can be implemented based on your needs)
+  async hasSocialLink(
+    platform: SocialPlatform,
+    walletAddress: `0x${string}`,
+    options?: SocialLinkLookupOptions
+  ): Promise<boolean> {
     console.log(`[BotVerifierService] Checking ${platform} link for ${walletAddress}`)
-    return false
+    return (await this.getSocialLink(platform, walletAddress, options)) !== null
   }
 }
 
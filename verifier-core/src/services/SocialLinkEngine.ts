@@ -0,0 +1,1718 @@
+/**
+ * SocialLinkEngine
+ *
+ * Shared linking logic used by BotVerifierService and the Mastra workflow.
+ * Links a social account to a wallet by creating the triple:
+ * [wallet] [has verified {platform} id] [userId]
+ *
+ * Each phase is exposed on its own so callers (e.g. a multi-step workflow)
+ * can run, retry and persist them independently. `link()` runs them all.
+ */
+
+import {
+  createPublicClient,
+  http,
+  stringToHex,
+  encodeFunctionData,
+  formatEther,
+  type PublicClient,
+  type WalletClient,
+  type Chain,
+  type Transport,
+} from 'viem'
+import { type PrivateKeyAccount } from 'viem/accounts'
+import { intuitionTestnet, type ChainConfiguration } from '../config/chainConfig'
+import { MultiVaultAbi } from '../abi/MultiVault'
+import { BondingCurveRegistryAbi } from '../abi/BondingCurveRegistry'
+import {
+  DEPOSIT_CONFIG,
+  GAS_LIMITS,
+  IPFS_GATEWAY_URL,
+  UNIQUENESS_CONFIG,
+  type UniquenessPolicy,
+  type SocialPlatform,
+} from '../config/constants'
+import { verifyWithProvider, type OAuthVerificationResult } from '../config/oauthEndpoints'
+import { platformRegistry, type PlatformRegistry } from '../platforms/registry'
+import {
+  type PlatformAuthData,
+  type PlatformCredentials,
+  type PlatformIdentity,
+  type VerificationInput,
+} from '../platforms/types'
+import {
+  IntuitionPinner,
+  computeCidV1,
+  resolveIpfsName,
+  serializeAtomMetadata,
+  type AtomMetadata,
+  type MetadataPinner,
+} from './ipfsPinning'
+import { type TransactionQueue } from './transactionQueue'
+import { BotWalletPool, type BotSigner, type SignerBalance } from './walletPool'
+import { CreationBatcher, type BatchingConfig } from './creationBatcher'
+import { decodeMultiVaultEvents, type TermDeposit } from './multivaultEvents'
+import {
+  resolveDeposit,
+  type DepositPolicy,
+  type DepositRole,
+  type MultiVaultDepositLimits,
+} from './depositPolicy'
+import {
+  VerifierException,
+  diagnoseRevertedTransaction,
+  type VerifierError,
+  formatContractError,
+  toErrorFields,
+  toVerifierError,
+  type VerifierErrorCode,
+} from './verifierErrors'
+import {
+  findTriplesByPredicateObjects,
+  findTriplesBySubjectPredicate,
+  findTriplesBySubjectPredicates,
+} from './intuitionIndexer'
+import {
+  createLinkChallenge,
+  verifyWalletOwnership,
+  defaultNonceStore,
+  type IssuedLinkChallenge,
+  type NonceStore,
+  type WalletOwnershipProof,
+  type WalletOwnershipResult,
+} from './walletChallenge'
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface SocialLinkEngineConfig {
+  /** Bot's private key (pays for and signs all transactions) */
+  botPrivateKey: `0x${string}`
+  /**
+   * Additional bot keys; each run is then paid by the least-busy signer
+   * that can cover it
+   */
+  botPrivateKeys?: `0x${string}`[]
+  /** Chain configuration */
+  chainConfig: ChainConfiguration
+  /** Platforms that can be linked (default: shared `platformRegistry`) */
+  platforms?: PlatformRegistry
+  /** Provider credentials keyed by platform, e.g. { twitch: { clientId } } */
+  credentials?: Partial<Record<SocialPlatform, PlatformCredentials>>
+  /** Twitch Client ID for OAuth verification (shorthand for credentials.twitch.clientId) */
+  twitchClientId?: string
+  /** GraphQL endpoint used for IPFS pinning (default: chainConfig.graphqlEndpoint) */
+  graphqlEndpoint?: string
+  /** Where social atom metadata is pinned (default: IntuitionPinner on graphqlEndpoint) */
+  pinner?: MetadataPinner
+  /**
+   * Pin the account avatar and profile URL with the social atom (default: false).
+   * The atom URI depends on this metadata, so an avatar change yields a new
+   * social atom; keep it off for privacy-sensitive deployments.
+   */
+  richMetadata?: boolean
+  /** IPFS gateway for resolving social atom labels (default: IPFS_GATEWAY_URL) */
+  ipfsGatewayUrl?: string
+  /** How many wallets may link the same social account (default: UNIQUENESS_CONFIG.DEFAULT_POLICY) */
+  uniquenessPolicy?: UniquenessPolicy
+  /**
+   * Accounts whose triples count as claims (default: every bot key).
+   * Anyone can create a triple, so claims from other creators are ignored.
+   */
+  trustedAttesters?: `0x${string}`[]
+  /** Whether an existing claim was revoked (require-revocation policy; default: never) */
+  isClaimRevoked?: (claim: SocialIdClaim) => boolean | Promise<boolean>
+  /** Store for wallet challenge nonces (default: shared in-memory store) */
+  nonceStore?: NonceStore
+  /** Refuse links whose quoted cost (deposits + max gas, in wei) exceeds this */
+  maxVerificationCost?: bigint
+  /** Deposits on top of creation costs (default: BOT_DEPOSIT_CONFIG) */
+  depositPolicy?: DepositPolicy
+  /**
+   * Extra triple stake on a bonding curve, deposited after the triple is created
+   * The creation deposit always goes to the default curve.
+   */
+  curveDeposit?: CurveDepositConfig
+  /**
+   * Balance (wei) the bot must keep after a run; verifications that would
+   * dip below it are rejected with INSUFFICIENT_BOT_BALANCE
+   */
+  minBotReserve?: bigint
+  /**
+   * Collect verifications for a short window and create their atoms and
+   * triples in combined transactions (default: off)
+   */
+  batching?: BatchingConfig
+}
+
+export interface CurveDepositConfig {
+  /** Bonding curve ID, checked against the MultiVault curve registry */
+  curveId: bigint
+  /** Assets to deposit (wei) */
+  assets: bigint
+  /** Minimum shares to accept (default: 0) */
+  minShares?: bigint
+}
+
+export interface LinkSocialRequest {
+  platform: SocialPlatform
+  walletAddress: `0x${string}`
+  /** OAuth access token (OAuth platforms) */
+  oauthToken?: string
+  /** Signed login payload (e.g. Telegram Login Widget) */
+  authData?: PlatformAuthData
+  ownershipProof: WalletOwnershipProof
+  /**
+   * Verify, pin and simulate every transaction without broadcasting
+   * The ownership nonce is still consumed.
+   */
+  dryRun?: boolean
+}
+
+export interface LinkSocialResult {
+  success: boolean
+  platform?: SocialPlatform
+  userId?: string
+  username?: string
+  /** True when the triple already existed and nothing was sent on-chain */
+  alreadyVerified?: boolean
+  /** True when transactions were simulated but not sent; the *AtomCreated flags report what would be created */
+  dryRun?: boolean
+  /**
+   * Whether createTriples was simulated in a dry run
+   * It cannot be until every atom exists on-chain.
+   */
+  tripleSimulated?: boolean
+  /** Triple ID (from the TripleCreated event when the run created it) */
+  tripleId?: `0x${string}`
+  /** Wallet, predicate and social atom IDs (from the AtomCreated events for created atoms) */
+  atomIds?: Record<AtomRole, `0x${string}`>
+  /** Assets deposited and shares minted by the run's transactions, from the Deposited events */
+  deposits?: TermDeposit[]
+  /** Bot key that paid (or would pay, in a dry run) for the run */
+  signer?: `0x${string}`
+  txHash?: string
+  blockNumber?: number
+  walletAtomCreated?: boolean
+  predicateAtomCreated?: boolean
+  socialAtomCreated?: boolean
+  error?: string
+  /** Machine-readable reason for a failure */
+  errorCode?: VerifierErrorCode
+  /** Decoded MultiVault custom error, when the contract rejected a transaction */
+  contractError?: string
+  /** Arguments of the decoded custom error (bigints as decimal strings) */
+  contractErrorArgs?: string[]
+  /** Extra stake on `curveDeposit.curveId` */
+  curveDeposit?: CurveDepositResult
+  /** Why the extra curve deposit failed (the link itself succeeded) */
+  curveDepositError?: string
+  /** Wallets already holding the account (ALREADY_CLAIMED_BY_OTHER_WALLET) */
+  claimedBy?: string[]
+}
+
+export interface SocialLink {
+  platform: SocialPlatform
+  walletAddress: `0x${string}`
+  /** Linked account ID (social atom label) */
+  userId?: string
+  tripleId: `0x${string}`
+  /** Block in which the triple was created (indexer only) */
+  blockNumber?: number
+  /** Vault stake on DEPOSIT_CONFIG.CURVE_ID */
+  totalShares: bigint
+  totalAssets: bigint
+  /** Account that created the triple (indexer only) */
+  attestedBy?: `0x${string}`
+  /**
+   * Where the link was found: the GraphQL indexer or the on-chain fallback
+   * The on-chain fallback only proves the triple exists, not who created it.
+   */
+  source: 'indexer' | 'onchain'
+}
+
+export interface SocialLinkLookupOptions {
+  /**
+   * Account ID to check on-chain if the indexer is unreachable
+   * The social atom URI is re-derived without pinning, which only works with
+   * pinners that have `uri` (KuboPinner, LocalPinner); otherwise pass
+   * `socialAtomUri`.
+   */
+  userId?: string
+  /** Avatar/profile URL the account was pinned with (richMetadata only) */
+  profile?: Pick<PlatformIdentity, 'avatarUrl' | 'profileUrl'>
+  /** Social atom URI for the on-chain check (e.g. kept from the link), instead of deriving it */
+  socialAtomUri?: string
+  /**
+   * Only accept triples created by these accounts (default: `trustedAttesters`,
+   * or every bot key). Pass 'any' to accept triples anyone created.
+   */
+  attesters?: `0x${string}`[] | 'any'
+}
+
+export interface VerificationRecord {
+  platform: SocialPlatform
+  /** Linked account ID (social atom label) */
+  userId?: string
+  tripleId: `0x${string}`
+  socialAtomId: `0x${string}`
+  /** Social atom data (IPFS URI) */
+  socialAtomUri?: string
+  txHash?: `0x${string}`
+  blockNumber?: number
+  /** Indexer timestamp of the triple creation */
+  createdAt?: string
+  /** Account that created the triple */
+  attestedBy?: `0x${string}`
+  /** Vault stake on DEPOSIT_CONFIG.CURVE_ID */
+  totalShares: bigint
+  totalAssets: bigint
+}
+
+export interface VerificationProfile {
+  walletAddress: `0x${string}`
+  /** Every `has verified {platform} id` triple for the wallet, newest first */
+  records: VerificationRecord[]
+  /** Platforms with at least one record */
+  platforms: SocialPlatform[]
+}
+
+export interface VerificationProfileOptions {
+  /**
+   * Only keep triples created by these accounts (default: `trustedAttesters`,
+   * or every bot key). Pass 'any' to include triples anyone created.
+   */
+  attesters?: `0x${string}`[] | 'any'
+}
+
+export interface SocialIdClaim {
+  /** Linked wallet (subject atom data) */
+  walletAddress: string
+  tripleId: `0x${string}`
+  socialAtomId: `0x${string}`
+  /** Social atom data (IPFS URI) */
+  socialAtomUri?: string
+  txHash?: `0x${string}`
+  blockNumber?: number
+  createdAt?: string
+  /** Account that created the triple */
+  attestedBy?: `0x${string}`
+  totalShares: bigint
+  totalAssets: bigint
+}
+
+export interface SocialIdOwnership {
+  platform: SocialPlatform
+  userId: string
+  /** Every triple pointing at the account's social atoms, oldest first */
+  claims: SocialIdClaim[]
+  /** Distinct wallets claiming the account (more than one means a multi-wallet claim) */
+  wallets: string[]
+}
+
+export interface SocialIdLookupOptions {
+  /**
+   * Social atoms of the account known to the caller (e.g. the one a link
+   * resolved); their triples count even when the indexer has not labelled
+   * the atom with the userId
+   */
+  socialAtomIds?: `0x${string}`[]
+  /**
+   * Only count triples created by these accounts (default: `trustedAttesters`,
+   * or every bot key). Pass 'any' to include triples anyone created.
+   */
+  attesters?: `0x${string}`[] | 'any'
+}
+
+export interface UniquenessCheckResult {
+  allowed: boolean
+  /** Other wallets whose claims block this link */
+  claimedBy?: string[]
+  error?: string
+}
+
+export interface ResolvedAtom {
+  /** Atom data as hex bytes */
+  data: `0x${string}`
+  /** Atom ID from calculateAtomId */
+  id: `0x${string}`
+  /** Whether the atom already exists on-chain */
+  exists: boolean
+}
+
+export interface ResolvedAtoms {
+  /** Platform the atoms were resolved for (selects deposits) */
+  platform: SocialPlatform
+  wallet: ResolvedAtom
+  predicate: ResolvedAtom
+  social: ResolvedAtom
+  /** Triple ID from calculateTripleId */
+  tripleId: `0x${string}`
+  /** Whether the triple already exists on-chain */
+  tripleExists: boolean
+}
+
+export interface AtomCreationResult {
+  /** createAtoms transaction (absent when every atom already existed or in a dry run) */
+  txHash?: `0x${string}`
+  blockNumber?: number
+  walletAtomCreated: boolean
+  predicateAtomCreated: boolean
+  socialAtomCreated: boolean
+  /** Atom IDs by role (from the AtomCreated events for created atoms) */
+  atomIds: Record<AtomRole, `0x${string}`>
+  /** Deposits into the created atoms */
+  deposits: TermDeposit[]
+}
+
+export interface TripleCreationResult {
+  /** Triple ID, from the TripleCreated event */
+  tripleId: `0x${string}`
+  txHash: `0x${string}`
+  blockNumber: number
+  /** Deposits into the triple */
+  deposits: TermDeposit[]
+}
+
+export interface CostPreview {
+  /** Atom or triple ID the deposit goes to */
+  termId: `0x${string}`
+  curveId: bigint
+  /** Value sent for this term (creation cost + bot deposit) */
+  assets: bigint
+  /** Fixed creation cost (getAtomCost / getTripleCost) */
+  creationCost: bigint
+  /** Protocol and entry fees taken after the fixed cost */
+  fees: bigint
+  /** Assets left in the vault after all fees */
+  assetsAfterFees: bigint
+  /** Shares minted to the bot */
+  shares: bigint
+}
+
+export interface VerificationQuote {
+  platform: SocialPlatform
+  walletAddress: `0x${string}`
+  userId: string
+  /** Triple the link would create (absent when `socialAtomEstimated`) */
+  tripleId?: `0x${string}`
+  /**
+   * True when the pinner cannot derive the social atom URI without pinning
+   * (e.g. pinThing): the social atom and triple are then priced from a local
+   * CIDv1, may be priced as new when they exist, and their term IDs may not
+   * be the ones the link creates. Totals are an upper bound either way.
+   */
+  socialAtomEstimated: boolean
+  /** Previews for the atoms that would be created */
+  atoms: Partial<Record<AtomRole, CostPreview>>
+  /** Preview for the triple (null when it already exists) */
+  triple: CostPreview | null
+  /** Preview for the extra curve deposit (null when not configured or the triple exists) */
+  curveDeposit: CostPreview | null
+  /** Value sent with the transactions */
+  totalAssets: bigint
+  /** Fixed costs + fees across all terms */
+  totalFees: bigint
+  /** Upper bound on gas: GAS_LIMITS at the current gas price */
+  maxGasCost: bigint
+  /** totalAssets + maxGasCost: TRUST the bot needs for this link */
+  totalCost: bigint
+  /** Configured ceiling (maxVerificationCost), if any */
+  maxCost?: bigint
+  withinLimit: boolean
+}
+
+interface PreflightBase {
+  quote: VerificationQuote
+  /** Balance of the picked signer, or the largest balance on failure */
+  balance: bigint
+  /** Balance and load of every signer */
+  balances: SignerBalance[]
+  /** Balance the bot must keep (minBotReserve) */
+  reserve: bigint
+}
+
+export type PreflightResult =
+  /** The run can start; `signer` pays for it. Pass `reservationId` to `releaseSigner` when it finishes */
+  | (PreflightBase & { signer: `0x${string}`; reservationId: string; failure?: undefined })
+  /** Why the run must not start */
+  | (PreflightBase & { signer?: undefined; reservationId?: undefined; failure: VerifierError })
+
+export interface CurveDepositResult {
+  curveId: bigint
+  txHash: `0x${string}`
+  blockNumber: number
+  /** Shares minted on the curve, from the Deposited event */
+  deposit?: TermDeposit
+}
+
+export interface OnchainOptions {
+  /** Simulate the transaction but do not send it */
+  dryRun?: boolean
+  /** Bot signer that pays (default: the primary key) */
+  signer?: `0x${string}`
+}
+
+export type AtomRole = 'wallet' | 'predicate' | 'social'
+
+// ============================================================
+// Engine Implementation
+// ============================================================
+
+export class SocialLinkEngine {
+  readonly publicClient: PublicClient
+  /** Primary signer's wallet client */
+  readonly walletClient: WalletClient<Transport, Chain, PrivateKeyAccount>
+  /** Primary signer (the first key) */
+  readonly account: PrivateKeyAccount
+  /** Primary signer's nonce-managed sends, shared by every engine using this account */
+  readonly transactions: TransactionQueue
+  /** Every bot signer, with its own transaction queue */
+  readonly pool: BotWalletPool
+  readonly platforms: PlatformRegistry
+  readonly pinner: MetadataPinner
+  private config: SocialLinkEngineConfig
+  private nonceStore: NonceStore
+  private depositLimits?: Promise<MultiVaultDepositLimits>
+  private validatedCurves = new Set<bigint>()
+  private batchers = new Map<string, CreationBatcher>()
+
+  constructor(config: SocialLinkEngineConfig) {
+    if (!config.botPrivateKey) {
+      throw new Error('botPrivateKey is required')
+    }
+
+    this.config = config
+    this.nonceStore = config.nonceStore ?? defaultNonceStore
+    this.platforms = config.platforms ?? platformRegistry
+    this.pinner = config.pinner
+      ?? new IntuitionPinner(config.graphqlEndpoint ?? config.chainConfig.graphqlEndpoint)
+
+    this.publicClient = createPublicClient({
+      chain: config.chainConfig.chain,
+      transport: http(config.chainConfig.rpcUrl),
+    })
+
+    this.pool = new BotWalletPool(
+      [config.botPrivateKey, ...(config.botPrivateKeys ?? [])],
+      config.chainConfig,
+      this.publicClient
+    )
+    this.account = this.pool.primary.account
+    this.walletClient = this.pool.primary.walletClient
+    this.transactions = this.pool.primary.transactions
+  }
+
+  get chainConfig(): ChainConfiguration {
+    return this.config.chainConfig
+  }
+
+  /**
+   * Issue a wallet ownership challenge for the user to sign
+   */
+  async createLinkChallenge(
+    platform: SocialPlatform,
+    walletAddress: `0x${string}`
+  ): Promise<IssuedLinkChallenge> {
+    // Throws for unregistered platforms
+    this.platforms.get(platform)
+
+    return await createLinkChallenge(walletAddress, platform, {
+      chainId: this.config.chainConfig.chain.id,
+      nonceStore: this.nonceStore,
+    })
+  }
+
+  /**
+   * Check the signed challenge and consume its nonce
+   */
+  async verifyOwnership(
+    platform: SocialPlatform,
+    walletAddress: `0x${string}`,
+    ownershipProof: WalletOwnershipProof
+  ): Promise<WalletOwnershipResult> {
+    return await verifyWalletOwnership(ownershipProof, {
+      walletAddress,
+      platform,
+      chainId: this.config.chainConfig.chain.id,
+      nonceStore: this.nonceStore,
+      publicClient: this.publicClient,
+    })
+  }
+
+  /**
+   * Verify the OAuth token (or signed login payload) and extract the userId
+   */
+  async verifyAccount(platform: SocialPlatform, input: VerificationInput): Promise<OAuthVerificationResult> {
+    if (!this.platforms.has(platform)) {
+      return { valid: false, error: `Unsupported platform: ${platform}`, errorCode: 'UNSUPPORTED_PLATFORM' }
+    }
+    return await verifyWithProvider(this.platforms.get(platform), input, this.getCredentials(platform))
+  }
+
+  /**
+   * Credentials configured for a platform
+   */
+  getCredentials(platform: SocialPlatform): PlatformCredentials {
+    const credentials = { ...this.config.credentials?.[platform] }
+    if (platform === 'twitch' && this.config.twitchClientId && !credentials.clientId) {
+      credentials.clientId = this.config.twitchClientId
+    }
+    return credentials
+  }
+
+  /**
+   * Pin the social atom metadata to IPFS (name=userId for correct label)
+   * Avatar and profile URL are only included when `richMetadata` is enabled.
+   */
+  async pinSocialMetadata(
+    platform: SocialPlatform,
+    userId: string,
+    profile: Pick<PlatformIdentity, 'avatarUrl' | 'profileUrl'> = {}
+  ): Promise<string> {
+    console.log(`[SocialLinkEngine] Pinning social atom to IPFS: name=${userId}`)
+
+    let uri: string
+    try {
+      uri = await this.pinner.pin(this.socialAtomMetadata(platform, userId, profile))
+    } catch (error) {
+      throw new VerifierException({
+        code: 'PIN_FAILED',
+        message: `Could not pin the ${platform} account metadata to IPFS: ${error instanceof Error ? error.message : String(error)}`,
+      })
+    }
+
+    console.log(`[SocialLinkEngine] Social atom IPFS URI: ${uri}`)
+    return uri
+  }
+
+  /**
+   * IPFS URI of the social atom metadata, without pinning it
+   * Uses the pinner's `uri` when it has one. Otherwise (e.g. pinThing) the
+   * CIDv1 is computed locally, which may differ from the URI the pinner
+   * returns: the social atom then looks missing and the triple ID differs.
+   */
+  async socialAtomUri(
+    platform: SocialPlatform,
+    userId: string,
+    profile: Pick<PlatformIdentity, 'avatarUrl' | 'profileUrl'> = {}
+  ): Promise<string> {
+    const metadata = this.socialAtomMetadata(platform, userId, profile)
+    if (this.pinner.uri) return await this.pinner.uri(metadata)
+
+    return `ipfs://${computeCidV1(new TextEncoder().encode(serializeAtomMetadata(metadata)))}`
+  }
+
+  /**
+   * Whether `socialAtomUri` is the URI the pinner publishes (the pinner has `uri`)
+   */
+  get exactSocialAtomUri(): boolean {
+    return Boolean(this.pinner.uri)
+  }
+
+  private socialAtomMetadata(
+    platform: SocialPlatform,
+    userId: string,
+    profile: Pick<PlatformIdentity, 'avatarUrl' | 'profileUrl'>
+  ): AtomMetadata {
+    return {
+      name: userId,
+      description: `Verified ${platform} account ID`,
+      ...(this.config.richMetadata ? { image: profile.avatarUrl, url: profile.profileUrl } : {}),
+    }
+  }
+
+  /**
+   * Calculate atom and triple IDs and check which already exist
+   */
+  async resolveAtoms(
+    platform: SocialPlatform,
+    walletAddress: `0x${string}`,
+    socialIpfsUri: string
+  ): Promise<ResolvedAtoms> {
+    const walletAtomData = stringToHex(walletAddress)
+    const predicateDataHex = stringToHex(this.platforms.get(platform).predicate)
+    const socialAtomDataHex = stringToHex(socialIpfsUri)
+
+    const [walletAtomId, predicateAtomId, socialAtomId] = await Promise.all([
+      this.calculateAtomId(walletAtomData),
+      this.calculateAtomId(predicateDataHex),
+      this.calculateAtomId(socialAtomDataHex),
+    ])
+
+    console.log(`[SocialLinkEngine] Wallet atom ID: ${walletAtomId}`)
+    console.log(`[SocialLinkEngine] Predicate atom ID: ${predicateAtomId}`)
+    console.log(`[SocialLinkEngine] Social atom ID: ${socialAtomId}`)
+
+    const [walletAtomExists, predicateAtomExists, socialAtomExists, tripleId] = await Promise.all([
+      this.isTermCreated(walletAtomId),
+      this.isTermCreated(predicateAtomId),
+      this.isTermCreated(socialAtomId),
+      this.publicClient.readContract({
+        address: this.config.chainConfig.multivaultAddress,
+        abi: MultiVaultAbi,
+        functionName: 'calculateTripleId',
+        args: [walletAtomId, predicateAtomId, socialAtomId],
+      }) as Promise<`0x${string}`>,
+    ])
+
+    // The triple can only exist if all three atoms do
+    const tripleExists = walletAtomExists && predicateAtomExists && socialAtomExists
+      ? await this.isTermCreated(tripleId)
+      : false
+
+    console.log(`[SocialLinkEngine] Atoms exist: wallet=${walletAtomExists} predicate=${predicateAtomExists} social=${socialAtomExists}`)
+    console.log(`[SocialLinkEngine] Triple ${tripleId} exists: ${tripleExists}`)
+
+    return {
+      platform,
+      wallet: { data: walletAtomData, id: walletAtomId, exists: walletAtomExists },
+      predicate: { data: predicateDataHex, id: predicateAtomId, exists: predicateAtomExists },
+      social: { data: socialAtomDataHex, id: socialAtomId, exists: socialAtomExists },
+      tripleId,
+      tripleExists,
+    }
+  }
+
+  /**
+   * Create all missing atoms in a single createAtoms transaction
+   * The IDs returned by the contract are checked against calculateAtomId before sending.
+   *
+   * Existence is re-checked first, so calling this again after a partial
+   * failure (e.g. a retried workflow step) only creates what is still missing.
+   * The call is simulated before sending; a revert throws its decoded reason
+   * and `options.dryRun` stops after the simulation.
+   */
+  async createMissingAtoms(atoms: ResolvedAtoms, options: OnchainOptions = {}): Promise<AtomCreationResult> {
+    const candidates = (['wallet', 'predicate', 'social'] as AtomRole[])
+      .filter((role) => !atoms[role].exists)
+      .map((role) => ({ role, ...atoms[role] }))
+
+    const stillMissing = await Promise.all(candidates.map(async (atom) => !(await this.isTermCreated(atom.id))))
+    const missing = candidates.filter((_, index) => stillMissing[index])
+
+    const result: AtomCreationResult = {
+      walletAtomCreated: !atoms.wallet.exists,
+      predicateAtomCreated: !atoms.predicate.exists,
+      socialAtomCreated: !atoms.social.exists,
+      atomIds: { wallet: atoms.wallet.id, predicate: atoms.predicate.id, social: atoms.social.id },
+      deposits: [],
+    }
+
+    if (missing.length === 0) {
+      return result
+    }
+
+    console.log(`[SocialLinkEngine] Creating atoms: ${missing.map((atom) => atom.role).join(', ')}`)
+
+    const atomCost = await this.publicClient.readContract({
+      address: this.config.chainConfig.multivaultAddress,
+      abi: MultiVaultAbi,
+      functionName: 'getAtomCost',
+    }) as bigint
+
+    const deposits = await Promise.all(missing.map((atom) => this.getDeposit(atoms.platform, atom.role)))
+    const atomsData = missing.map((atom) => atom.data)
+    const assets = deposits.map((deposit) => atomCost + deposit)
+    const totalValue = assets.reduce((sum, value) => sum + value, 0n)
+
+    const signer = this.pool.get(options.signer)
+
+    const { result: returnedIds } = await this.publicClient.simulateContract({
+      account: signer.account,
+      address: this.config.chainConfig.multivaultAddress,
+      abi: MultiVaultAbi,
+      functionName: 'createAtoms',
+      args: [atomsData, assets],
+      value: totalValue,
+    }) as { result: readonly `0x${string}`[] }
+
+    missing.forEach((atom, index) => {
+      if (returnedIds[index]?.toLowerCase() !== atom.id.toLowerCase()) {
+        throw new Error(
+          `${atom.role} atom ID mismatch: expected ${atom.id}, contract returned ${returnedIds[index]}`
+        )
+      }
+    })
+
+    if (options.dryRun) {
+      console.log(`[SocialLinkEngine] Dry run: createAtoms simulated for ${missing.length} atom(s), not sent`)
+      return result
+    }
+
+    if (this.config.batching) {
+      const batch = await this.getBatcher(signer).createAtoms(
+        missing.map((atom, index) => ({ id: atom.id, data: atom.data, assets: assets[index] }))
+      )
+      return { ...result, txHash: batch.txHash, blockNumber: batch.blockNumber, deposits: batch.deposits }
+    }
+
+    const atomCallData = encodeFunctionData({
+      abi: MultiVaultAbi,
+      functionName: 'createAtoms',
+      args: [atomsData, assets],
+    })
+
+    const transaction = {
+      to: this.config.chainConfig.multivaultAddress,
+      data: atomCallData,
+      value: totalValue,
+      gas: GAS_LIMITS.ATOM_CREATION * BigInt(missing.length),
+    }
+    const sentHash = await signer.transactions.send(transaction)
+
+    console.log(`[SocialLinkEngine] Atoms TX: ${sentHash} (from ${signer.account.address})`)
+    const receipt = await signer.transactions.waitForReceipt(sentHash, transaction)
+    const txHash = receipt.transactionHash
+
+    if (receipt.status !== 'success') {
+      throw await this.revertException(txHash, receipt.blockNumber, 'Atom creation')
+    }
+
+    const events = decodeMultiVaultEvents(receipt, this.config.chainConfig.multivaultAddress)
+    const atomIds = { ...result.atomIds }
+    for (const atom of missing) {
+      const created = events.atoms.find((event) => event.atomData.toLowerCase() === atom.data.toLowerCase())
+      if (created) atomIds[atom.role] = created.termId
+    }
+
+    console.log(`[SocialLinkEngine] ${events.atoms.length} atom(s) created in block ${receipt.blockNumber}`)
+    return { ...result, atomIds, deposits: events.deposits, txHash, blockNumber: Number(receipt.blockNumber) }
+  }
+
+  /**
+   * Create the triple [wallet] [has verified {platform} id] [userId]
+   * The call is simulated before sending; a revert throws its decoded reason.
+   */
+  async createTriple(atoms: ResolvedAtoms, options: OnchainOptions = {}): Promise<TripleCreationResult> {
+    const signer = this.pool.get(options.signer)
+    const tripleDepositAmount = await this.simulateTriple(atoms, signer.account.address)
+
+    if (this.config.batching) {
+      const batch = await this.getBatcher(signer).createTriples([{
+        id: atoms.tripleId,
+        subjectId: atoms.wallet.id,
+        predicateId: atoms.predicate.id,
+        objectId: atoms.social.id,
+        assets: tripleDepositAmount,
+      }])
+      const [tripleId] = batch.createdIds
+      if (!tripleId || !batch.txHash || batch.blockNumber === undefined) {
+        throw new Error(`Triple ${atoms.tripleId} was not created by the batch${batch.txHash ? ` ${batch.txHash}` : ''}`)
+      }
+
+      console.log(`[SocialLinkEngine] Triple created in block ${batch.blockNumber} (batch of ${batch.batchSize})`)
+      return { tripleId, txHash: batch.txHash, blockNumber: batch.blockNumber, deposits: batch.deposits }
+    }
+
+    const tripleCallData = encodeFunctionData({
+      abi: MultiVaultAbi,
+      functionName: 'createTriples',
+      args: [
+        [atoms.wallet.id],
+        [atoms.predicate.id],
+        [atoms.social.id],
+        [tripleDepositAmount],
+      ],
+    })
+
+    const transaction = {
+      to: this.config.chainConfig.multivaultAddress,
+      data: tripleCallData,
+      value: tripleDepositAmount,
+      gas: GAS_LIMITS.TRIPLE_CREATION,
+    }
+    const sentHash = await signer.transactions.send(transaction)
+
+    console.log(`[SocialLinkEngine] Triple TX: ${sentHash} (from ${signer.account.address})`)
+    const receipt = await signer.transactions.waitForReceipt(sentHash, transaction)
+    const txHash = receipt.transactionHash
+
+    if (receipt.status !== 'success') {
+      throw await this.revertException(txHash, receipt.blockNumber, 'Triple creation')
+    }
+
+    const events = decodeMultiVaultEvents(receipt, this.config.chainConfig.multivaultAddress)
+    const created = events.triples.find((event) =>
+      event.subjectId.toLowerCase() === atoms.wallet.id.toLowerCase()
+      && event.predicateId.toLowerCase() === atoms.predicate.id.toLowerCase()
+      && event.objectId.toLowerCase() === atoms.social.id.toLowerCase()
+    )
+    if (!created) {
+      throw new Error(`Triple TX ${txHash} emitted no TripleCreated event for ${atoms.tripleId}`)
+    }
+
+    console.log(`[SocialLinkEngine] Triple ${created.termId} created in block ${receipt.blockNumber}`)
+    return { tripleId: created.termId, txHash, blockNumber: Number(receipt.blockNumber), deposits: events.deposits }
+  }
+
+  /**
+   * Dry-run the triple step: simulate createTriples when every atom exists
+   * createTriples reverts on atoms that do not exist yet, so nothing is
+   * simulated otherwise. Returns whether the triple was simulated.
+   */
+  async dryRunTriple(atoms: ResolvedAtoms, signer?: `0x${string}`): Promise<boolean> {
+    const simulated = atoms.wallet.exists && atoms.predicate.exists && atoms.social.exists
+    if (simulated) {
+      await this.simulateTriple(atoms, signer)
+    }
+    return simulated
+  }
+
+  /**
+   * Simulate createTriples for the resolved atoms without sending it
+   * Every atom must already exist on-chain. Returns the deposit the
+   * transaction will send.
+   */
+  async simulateTriple(atoms: ResolvedAtoms, signer?: `0x${string}`): Promise<bigint> {
+    const tripleCost = await this.publicClient.readContract({
+      address: this.config.chainConfig.multivaultAddress,
+      abi: MultiVaultAbi,
+      functionName: 'getTripleCost',
+    }) as bigint
+
+    const tripleDepositAmount = tripleCost + await this.getDeposit(atoms.platform, 'triple')
+
+    const { result: returnedIds } = await this.publicClient.simulateContract({
+      account: this.pool.get(signer).account,
+      address: this.config.chainConfig.multivaultAddress,
+      abi: MultiVaultAbi,
+      functionName: 'createTriples',
+      args: [[atoms.wallet.id], [atoms.predicate.id], [atoms.social.id], [tripleDepositAmount]],
+      value: tripleDepositAmount,
+    }) as { result: readonly `0x${string}`[] }
+
+    if (returnedIds[0]?.toLowerCase() !== atoms.tripleId.toLowerCase()) {
+      throw new Error(`Triple ID mismatch: expected ${atoms.tripleId}, contract returned ${returnedIds[0]}`)
+    }
+
+    return tripleDepositAmount
+  }
+
+  /**
+   * Quote what linking an account would cost
+   * Computes the social atom URI without pinning (see `socialAtomUri`) to
+   * know which atoms already exist, then previews every deposit. With a
+   * pinner that has no `uri` the quote is marked `socialAtomEstimated`.
+   * Pass the verified `profile` when `richMetadata` is enabled, or the quote
+   * prices a social atom without avatar and profile URL.
+   */
+  async quoteVerification(
+    platform: SocialPlatform,
+    walletAddress: `0x${string}`,
+    userId: string,
+    profile: Pick<PlatformIdentity, 'avatarUrl' | 'profileUrl'> = {}
+  ): Promise<VerificationQuote> {
+    const socialIpfsUri = await this.socialAtomUri(platform, userId, profile)
+    const atoms = await this.resolveAtoms(platform, walletAddress, socialIpfsUri)
+    const quote = await this.quoteAtoms(platform, walletAddress, userId, atoms)
+
+    return this.exactSocialAtomUri ? quote : { ...quote, tripleId: undefined, socialAtomEstimated: true }
+  }
+
+  /**
+   * Quote the transactions for already resolved atoms
+   * Uses getAtomCost/getTripleCost and previewAtomCreate/previewTripleCreate
+   * on DEPOSIT_CONFIG.CURVE_ID with the amounts createMissingAtoms and
+   * createTriple send. Throws INVALID_CURVE when `curveDeposit` names an
+   * unregistered curve, so runs stop before any atom is paid for.
+   */
+  async quoteAtoms(
+    platform: SocialPlatform,
+    walletAddress: `0x${string}`,
+    userId: string,
+    atoms: ResolvedAtoms
+  ): Promise<VerificationQuote> {
+    const multivaultAddress = this.config.chainConfig.multivaultAddress
+    const missing = (['wallet', 'predicate', 'social'] as AtomRole[]).filter((role) => !atoms[role].exists)
+
+    if (this.config.curveDeposit) {
+      await this.validateCurve(this.config.curveDeposit.curveId)
+    }
+
+    const [atomCost, tripleCost, gasPrice] = await Promise.all([
+      this.publicClient.readContract({
+        address: multivaultAddress,
+        abi: MultiVaultAbi,
+        functionName: 'getAtomCost',
+      }) as Promise<bigint>,
+      this.publicClient.readContract({
+        address: multivaultAddress,
+        abi: MultiVaultAbi,
+        functionName: 'getTripleCost',
+      }) as Promise<bigint>,
+      this.publicClient.getGasPrice(),
+    ])
+
+    const preview = async (
+      functionName: 'previewAtomCreate' | 'previewTripleCreate',
+      termId: `0x${string}`,
+      creationCost: bigint,
+      assets: bigint
+    ): Promise<CostPreview> => {
+      const [shares, assetsAfterFixedFees, assetsAfterFees] = await this.publicClient.readContract({
+        address: multivaultAddress,
+        abi: MultiVaultAbi,
+        functionName,
+        args: [termId, DEPOSIT_CONFIG.CURVE_ID, assets],
+      }) as readonly [bigint, bigint, bigint]
+
+      return {
+        termId,
+        curveId: DEPOSIT_CONFIG.CURVE_ID,
+        assets,
+        creationCost,
+        fees: assetsAfterFixedFees - assetsAfterFees,
+        assetsAfterFees,
+        shares,
+      }
+    }
+
+    const atomPreviews = await Promise.all(missing.map(async (role) =>
+      preview('previewAtomCreate', atoms[role].id, atomCost, atomCost + await this.getDeposit(platform, role))
+    ))
+    const triple = atoms.tripleExists
+      ? null
+      : await preview('previewTripleCreate', atoms.tripleId, tripleCost, tripleCost + await this.getDeposit(platform, 'triple'))
+
+    const curveDeposit = triple ? await this.previewCurveDeposit(atoms.tripleId) : null
+
+    const previews = [...atomPreviews, triple, curveDeposit].filter((item): item is CostPreview => item !== null)
+    const totalAssets = previews.reduce((sum, item) => sum + item.assets, 0n)
+    const totalFees = previews.reduce((sum, item) => sum + item.creationCost + item.fees, 0n)
+
+    const gasLimit = (missing.length > 0 ? GAS_LIMITS.ATOM_CREATION * BigInt(missing.length) : 0n)
+      + (triple ? GAS_LIMITS.TRIPLE_CREATION : 0n)
+      + (curveDeposit ? GAS_LIMITS.CURVE_DEPOSIT : 0n)
+    const maxGasCost = gasLimit * gasPrice
+    const totalCost = totalAssets + maxGasCost
+    const maxCost = this.config.maxVerificationCost
+
+    return {
+      platform,
+      walletAddress,
+      userId,
+      tripleId: atoms.tripleId,
+      socialAtomEstimated: false,
+      atoms: Object.fromEntries(missing.map((role, index) => [role, atomPreviews[index]])),
+      triple,
+      curveDeposit,
+      totalAssets,
+      totalFees,
+      maxGasCost,
+      totalCost,
+      maxCost,
+      withinLimit: maxCost === undefined || totalCost <= maxCost,
+    }
+  }
+
+  /**
+   * Get the bot's current balance
+   */
+  async getBotBalance(): Promise<bigint> {
+    return await this.publicClient.getBalance({ address: this.account.address })
+  }
+
+  /**
+   * Balance and in-flight transactions of every bot signer
+   */
+  async getBotBalances(): Promise<SignerBalance[]> {
+    return await this.pool.balances()
+  }
+
+  /**
+   * Pre-flight check before the first transaction of a run
+   * Quotes the run, then refuses it when the quote is above
+   * `maxVerificationCost` or no signer can pay it and keep `minBotReserve`,
+   * so an underfunded bot does not stop halfway and leave orphaned atoms.
+   * With several keys, the least-busy signer that can pay is picked; pass
+   * it as `options.signer` to every on-chain call of the run. The quoted
+   * cost is reserved on it until `releaseSigner(reservationId)`, so
+   * concurrent preflights do not all pick (and drain) the same key.
+   */
+  async preflight(
+    platform: SocialPlatform,
+    walletAddress: `0x${string}`,
+    userId: string,
+    atoms: ResolvedAtoms
+  ): Promise<PreflightResult> {
+    const quote = await this.quoteAtoms(platform, walletAddress, userId, atoms)
+    const reserve = this.config.minBotReserve ?? 0n
+    const { signer, reservationId, balances } = await this.pool.select(
+      quote.totalCost + reserve,
+      quote.withinLimit ? quote.totalCost : undefined
+    )
+
+    const balance = signer
+      ? balances.find((entry) => entry.address === signer.account.address)?.balance ?? 0n
+      : balances.reduce((max, entry) => (entry.balance > max ? entry.balance : max), 0n)
+
+    console.log(`[SocialLinkEngine] Quoted ${formatEther(quote.totalCost)} TRUST, bot balance ${formatEther(balance)} TRUST`)
+
+    if (!quote.withinLimit) {
+      return {
+        quote,
+        balance,
+        balances,
+        reserve,
+        failure: {
+          code: 'COST_LIMIT_EXCEEDED',
+          message: `Verification would cost ${formatEther(quote.totalCost)} TRUST, above the ${formatEther(quote.maxCost ?? 0n)} TRUST limit`,
+        },
+      }
+    }
+
+    if (!signer || !reservationId) {
+      console.warn(`[SocialLinkEngine] Bot balance too low: ${formatEther(balance)} TRUST`)
+      return {
+        quote,
+        balance,
+        balances,
+        reserve,
+        failure: {
+          code: 'INSUFFICIENT_BOT_BALANCE',
+          message: reserve > 0n
+            ? `The verifier wallet needs ${formatEther(quote.totalCost)} TRUST plus a ${formatEther(reserve)} TRUST reserve, and holds ${formatEther(balance)} TRUST`
+            : `The verifier wallet needs ${formatEther(quote.totalCost)} TRUST, and holds ${formatEther(balance)} TRUST`,
+        },
+      }
+    }
+
+    if (this.pool.signers.length > 1) {
+      console.log(`[SocialLinkEngine] Signer: ${signer.account.address}`)
+    }
+
+    return { quote, signer: signer.account.address, reservationId, balance, balances, reserve }
+  }
+
+  /**
+   * Release the signer reserved by `preflight` once the run has finished
+   */
+  releaseSigner(reservationId?: string): void {
+    this.pool.release(reservationId)
+  }
+
+  /**
+   * Check that a bonding curve exists
+   * The default curve always does; any other ID must be registered in the
+   * curve registry from getBondingCurveConfig. Throws INVALID_CURVE otherwise.
+   */
+  async validateCurve(curveId: bigint): Promise<void> {
+    if (this.validatedCurves.has(curveId)) return
+
+    const { registry, defaultCurveId } = await this.publicClient.readContract({
+      address: this.config.chainConfig.multivaultAddress,
+      abi: MultiVaultAbi,
+      functionName: 'getBondingCurveConfig',
+    }) as { registry: `0x${string}`; defaultCurveId: bigint }
+
+    if (curveId !== defaultCurveId) {
+      const curveAddress = await this.publicClient.readContract({
+        address: registry,
+        abi: BondingCurveRegistryAbi,
+        functionName: 'curveAddresses',
+        args: [curveId],
+      }) as `0x${string}`
+
+      if (/^0x0{40}$/.test(curveAddress)) {
+        throw new VerifierException({
+          code: 'INVALID_CURVE',
+          message: `Bonding curve ${curveId} is not registered in ${registry}`,
+        })
+      }
+    }
+
+    this.validatedCurves.add(curveId)
+  }
+
+  /**
+   * Stake `curveDeposit.assets` on the triple's vault for `curveDeposit.curveId`
+   * The deposit is simulated first. Returns undefined when no curve deposit
+   * is configured.
+   */
+  async depositOnCurve(tripleId: `0x${string}`, options: OnchainOptions = {}): Promise<CurveDepositResult | undefined> {
+    const curveDeposit = this.config.curveDeposit
+    if (!curveDeposit) return undefined
+
+    const { curveId, assets, minShares = 0n } = curveDeposit
+    await this.validateCurve(curveId)
+
+    const signer = this.pool.get(options.signer)
+    const args = [signer.account.address, tripleId, curveId, minShares] as const
+
+    await this.publicClient.simulateContract({
+      account: signer.account,
+      address: this.config.chainConfig.multivaultAddress,
+      abi: MultiVaultAbi,
+      functionName: 'deposit',
+      args,
+      value: assets,
+    })
+
+    const transaction = {
+      to: this.config.chainConfig.multivaultAddress,
+      data: encodeFunctionData({ abi: MultiVaultAbi, functionName: 'deposit', args }),
+      value: assets,
+      gas: GAS_LIMITS.CURVE_DEPOSIT,
+    }
+    const sentHash = await signer.transactions.send(transaction)
+
+    console.log(`[SocialLinkEngine] Curve ${curveId} deposit TX: ${sentHash} (from ${signer.account.address})`)
+    const receipt = await signer.transactions.waitForReceipt(sentHash, transaction)
+    const txHash = receipt.transactionHash
+
+    if (receipt.status !== 'success') {
+      throw await this.revertException(txHash, receipt.blockNumber, 'Curve deposit')
+    }
+
+    const { deposits } = decodeMultiVaultEvents(receipt, this.config.chainConfig.multivaultAddress)
+    const deposit = deposits.find((event) =>
+      event.termId.toLowerCase() === tripleId.toLowerCase() && event.curveId === curveId
+    )
+
+    return { curveId, txHash, blockNumber: Number(receipt.blockNumber), deposit }
+  }
+
+  /**
+   * Find the wallet's link for a platform
+   * Queries the GraphQL indexer for the newest [wallet] [predicate] [*] triple
+   * created by a trusted attester (see `options.attesters`), and falls back to
+   * calculateTripleId/isTermCreated when the indexer is unreachable. Returns
+   * null when no link exists.
+   *
+   * The fallback needs the social atom URI: `options.socialAtomUri`, or
+   * `options.userId` with a pinner that can compute its URI offline
+   * (KuboPinner, LocalPinner; not pinThing). Nothing is pinned. It cannot
+   * see who created the triple, so anyone could have; its result is marked
+   * `source: 'onchain'`.
+   */
+  async getSocialLink(
+    platform: SocialPlatform,
+    walletAddress: `0x${string}`,
+    options: SocialLinkLookupOptions = {}
+  ): Promise<SocialLink | null> {
+    const [walletAtomId, predicateAtomId] = await Promise.all([
+      this.calculateAtomId(stringToHex(walletAddress)),
+      this.calculateAtomId(stringToHex(this.platforms.get(platform).predicate)),
+    ])
+
+    const attesters = options.attesters === 'any'
+      ? undefined
+      : (options.attesters ?? this.getTrustedAttesters()).map((address) => address.toLowerCase())
+
+    try {
+      const triples = await findTriplesBySubjectPredicate(
+        this.config.chainConfig.graphqlEndpoint,
+        walletAtomId,
+        predicateAtomId,
+        DEPOSIT_CONFIG.CURVE_ID
+      )
+      const triple = triples.find((candidate) =>
+        !attesters || attesters.includes(candidate.creatorId?.toLowerCase() ?? '')
+      )
+
+      if (!triple) return null
+
+      return {
+        platform,
+        walletAddress,
+        userId: await this.resolveSocialLabel(triple.objectLabel, triple.objectData),
+        tripleId: triple.tripleId,
+        blockNumber: triple.blockNumber,
+        totalShares: triple.totalShares,
+        totalAssets: triple.totalAssets,
+        attestedBy: triple.creatorId,
+        source: 'indexer',
+      }
+    } catch (error) {
+      console.warn('[SocialLinkEngine] Indexer unreachable, checking on-chain (creator not verified):', error)
+    }
+
+    const { userId } = options
+    const socialIpfsUri = options.socialAtomUri
+      ?? (userId && this.exactSocialAtomUri ? await this.socialAtomUri(platform, userId, options.profile) : undefined)
+
+    if (!socialIpfsUri) {
+      throw new Error(userId
+        ? 'Indexer unreachable and the pinner cannot derive the social atom URI: pass socialAtomUri for the on-chain check'
+        : 'Indexer unreachable and no userId or socialAtomUri given for the on-chain check')
+    }
+
+    const atoms = await this.resolveAtoms(platform, walletAddress, socialIpfsUri)
+
+    if (!atoms.tripleExists) return null
+
+    const [totalAssets, totalShares] = await this.publicClient.readContract({
+      address: this.config.chainConfig.multivaultAddress,
+      abi: MultiVaultAbi,
+      functionName: 'getVault',
+      args: [atoms.tripleId, DEPOSIT_CONFIG.CURVE_ID],
+    }) as [bigint, bigint]
+
+    return {
+      platform,
+      walletAddress,
+      userId,
+      tripleId: atoms.tripleId,
+      totalShares,
+      totalAssets,
+      source: 'onchain',
+    }
+  }
+
+  /**
+   * Every verified social account of a wallet, across all registered platforms
+   * Read from the GraphQL indexer; social atom labels the indexer has not
+   * resolved are fetched from IPFS.
+   */
+  async getVerificationProfile(
+    walletAddress: `0x${string}`,
+    options: VerificationProfileOptions = {}
+  ): Promise<VerificationProfile> {
+    const providers = this.platforms.list()
+
+    const [walletAtomId, ...predicateAtomIds] = await Promise.all([
+      this.calculateAtomId(stringToHex(walletAddress)),
+      ...providers.map((provider) => this.calculateAtomId(stringToHex(provider.predicate))),
+    ])
+
+    const platformByPredicate = new Map(
+      predicateAtomIds.map((id, index) => [id.toLowerCase(), providers[index].id])
+    )
+    const attesters = options.attesters === 'any'
+      ? undefined
+      : (options.attesters ?? this.getTrustedAttesters()).map((address) => address.toLowerCase())
+
+    const triples = await findTriplesBySubjectPredicates(
+      this.config.chainConfig.graphqlEndpoint,
+      walletAtomId,
+      predicateAtomIds,
+      DEPOSIT_CONFIG.CURVE_ID
+    )
+
+    const records = await Promise.all(
+      triples
+        .filter((triple) => !attesters || attesters.includes(triple.creatorId?.toLowerCase() ?? ''))
+        .map(async (triple): Promise<VerificationRecord> => ({
+          platform: platformByPredicate.get(triple.predicateId.toLowerCase()) ?? triple.predicateId,
+          userId: await this.resolveSocialLabel(triple.objectLabel, triple.objectData),
+          tripleId: triple.tripleId,
+          socialAtomId: triple.objectId,
+          socialAtomUri: triple.objectData,
+          txHash: triple.transactionHash,
+          blockNumber: triple.blockNumber,
+          createdAt: triple.createdAt,
+          attestedBy: triple.creatorId,
+          totalShares: triple.totalShares,
+          totalAssets: triple.totalAssets,
+        }))
+    )
+
+    return {
+      walletAddress,
+      records,
+      platforms: [...new Set(records.map((record) => record.platform))],
+    }
+  }
+
+  /**
+   * Reverse lookup: which wallets are linked to a platform account
+   * Finds the social atoms labelled with the userId (the pinned IPFS
+   * metadata name), plus `options.socialAtomIds`, and lists every triple
+   * pointing at them that a trusted attester created (see `options.attesters`).
+   */
+  async findWalletsForSocialId(
+    platform: SocialPlatform,
+    userId: string,
+    options: SocialIdLookupOptions = {}
+  ): Promise<SocialIdOwnership> {
+    const predicateAtomId = await this.calculateAtomId(stringToHex(this.platforms.get(platform).predicate))
+
+    const triples = await findTriplesByPredicateObjects(
+      this.config.chainConfig.graphqlEndpoint,
+      predicateAtomId,
+      options.socialAtomIds ?? [],
+      userId,
+      DEPOSIT_CONFIG.CURVE_ID
+    )
+
+    const attesters = options.attesters === 'any'
+      ? undefined
+      : (options.attesters ?? this.getTrustedAttesters()).map((address) => address.toLowerCase())
+
+    const claims = triples
+      .filter((triple) => !attesters || attesters.includes(triple.creatorId?.toLowerCase() ?? ''))
+      .map((triple): SocialIdClaim => ({
+        walletAddress: triple.subjectData ?? triple.subjectId,
+        tripleId: triple.tripleId,
+        socialAtomId: triple.objectId,
+        socialAtomUri: triple.objectData,
+        txHash: triple.transactionHash,
+        blockNumber: triple.blockNumber,
+        createdAt: triple.createdAt,
+        attestedBy: triple.creatorId,
+        totalShares: triple.totalShares,
+        totalAssets: triple.totalAssets,
+      }))
+
+    const wallets = [...new Set(claims.map((claim) => claim.walletAddress.toLowerCase()))]
+    if (wallets.length > 1) {
+      console.warn(`[SocialLinkEngine] ${platform} account ${userId} is claimed by ${wallets.length} wallets`)
+    }
+
+    return { platform, userId, claims, wallets }
+  }
+
+  /**
+   * Check the uniqueness policy before any gas is spent
+   * Claims are the triples on the resolved social atom (`socialAtomId`), plus
+   * those on other atoms labelled with the userId (e.g. rich-metadata variants).
+   * Fails closed: if existing claims cannot be read, the link is not allowed.
+   */
+  async checkUniqueness(
+    platform: SocialPlatform,
+    userId: string,
+    walletAddress: `0x${string}`,
+    socialAtomId: `0x${string}`
+  ): Promise<UniquenessCheckResult> {
+    const policy = this.config.uniquenessPolicy ?? UNIQUENESS_CONFIG.DEFAULT_POLICY
+    if (policy === 'allow-many') {
+      return { allowed: true }
+    }
+
+    let ownership: SocialIdOwnership
+    try {
+      ownership = await this.findWalletsForSocialId(platform, userId, { socialAtomIds: [socialAtomId] })
+    } catch (error) {
+      console.error('[SocialLinkEngine] Could not check existing claims:', error)
+      return {
+        allowed: false,
+        error: `Could not check existing claims: ${error instanceof Error ? error.message : String(error)}`,
+      }
+    }
+
+    // Only trusted attesters' claims are returned (the default)
+    const otherClaims = ownership.claims.filter((claim) =>
+      claim.walletAddress.toLowerCase() !== walletAddress.toLowerCase()
+    )
+
+    const blocking: SocialIdClaim[] = []
+    for (const claim of otherClaims) {
+      const active = policy === 'one-active'
+        ? claim.totalShares > 0n
+        : !(await this.config.isClaimRevoked?.(claim))
+      if (active) blocking.push(claim)
+    }
+
+    if (blocking.length === 0) {
+      return { allowed: true }
+    }
+
+    const claimedBy = [...new Set(blocking.map((claim) => claim.walletAddress.toLowerCase()))]
+    console.log(`[SocialLinkEngine] ${platform} account ${userId} already claimed by ${claimedBy.join(', ')} (${policy})`)
+    return { allowed: false, claimedBy }
+  }
+
+  /**
+   * Run every phase: ownership, OAuth, pinning, atoms and triple
+   */
+  async link(request: LinkSocialRequest): Promise<LinkSocialResult> {
+    const { platform, walletAddress, oauthToken, authData, ownershipProof, dryRun } = request
+    const input = authData ?? oauthToken
+
+    if (!input) {
+      return { success: false, platform, error: 'oauthToken or authData is required', errorCode: 'INVALID_REQUEST' }
+    }
+
+    let userId: string | undefined
+    let username: string | undefined
+    let atomCreation: AtomCreationResult | undefined
+    let reservationId: string | undefined
+
+    try {
+      // Step 1: Verify the caller controls the wallet (before any OAuth or on-chain work)
+      const ownership = await this.verifyOwnership(platform, walletAddress, ownershipProof)
+
+      if (!ownership.valid) {
+        return {
+          success: false,
+          platform,
+          error: ownership.error || 'Wallet ownership verification failed',
+          errorCode: 'WALLET_OWNERSHIP_INVALID',
+        }
+      }
+
+      // Step 2: Verify token (or login payload) and get userId
+      const verification = await this.verifyAccount(platform, input)
+
+      if (!verification.valid || !verification.userId) {
+        return {
+          success: false,
+          platform,
+          error: verification.error || 'Invalid OAuth token',
+          errorCode: verification.errorCode ?? 'OAUTH_INVALID',
+        }
+      }
+
+      userId = verification.userId
+      username = verification.username
+      console.log(`[SocialLinkEngine] Verified ${platform} account: ${username} (${userId})`)
+
+      // Step 3: Pin social atom to IPFS
+      const socialIpfsUri = await this.pinSocialMetadata(platform, userId, verification)
+
+      // Step 4: Resolve atom and triple IDs
+      const atoms = await this.resolveAtoms(platform, walletAddress, socialIpfsUri)
+
+      if (atoms.tripleExists) {
+        return {
+          success: true,
+          platform,
+          userId,
+          username,
+          alreadyVerified: true,
+          tripleId: atoms.tripleId,
+          atomIds: { wallet: atoms.wallet.id, predicate: atoms.predicate.id, social: atoms.social.id },
+          walletAtomCreated: false,
+          predicateAtomCreated: false,
+          socialAtomCreated: false,
+        }
+      }
+
+      // Step 5: Enforce the uniqueness policy before spending gas
+      const uniqueness = await this.checkUniqueness(platform, userId, walletAddress, atoms.social.id)
+
+      if (uniqueness.claimedBy) {
+        return {
+          success: false,
+          platform,
+          userId,
+          username,
+          error: `This ${platform} account is already linked to another wallet`,
+          errorCode: 'ALREADY_CLAIMED_BY_OTHER_WALLET',
+          claimedBy: uniqueness.claimedBy,
+        }
+      }
+
+      if (!uniqueness.allowed) {
+        return { success: false, platform, userId, username, error: uniqueness.error, errorCode: 'INDEXER_UNAVAILABLE' }
+      }
+
+      // Step 6: Refuse runs above the cost ceiling or the bot's balance
+      const preflight = await this.preflight(platform, walletAddress, userId, atoms)
+
+      if (preflight.failure) {
+        return { success: false, platform, userId, username, ...toErrorFields(preflight.failure) }
+      }
+
+      const { signer } = preflight
+      reservationId = preflight.reservationId
+
+      // Step 7: Create missing atoms
+      atomCreation = await this.createMissingAtoms(atoms, { dryRun, signer })
+
+      if (dryRun) {
+        // The deposit cannot be simulated before the triple exists; preflight checked its curve
+        const tripleSimulated = await this.dryRunTriple(atoms, signer)
+
+        console.log(`[SocialLinkEngine] Dry run complete for ${platform} ${userId} (triple simulated: ${tripleSimulated})`)
+
+        return {
+          success: true,
+          platform,
+          userId,
+          username,
+          dryRun: true,
+          tripleSimulated,
+          tripleId: atoms.tripleId,
+          atomIds: atomCreation.atomIds,
+          signer,
+          walletAtomCreated: atomCreation.walletAtomCreated,
+          predicateAtomCreated: atomCreation.predicateAtomCreated,
+          socialAtomCreated: atomCreation.socialAtomCreated,
+        }
+      }
+
+      // Step 8: Create the triple
+      console.log(`[SocialLinkEngine] Creating triple: [${walletAddress}] [${this.platforms.get(platform).predicate}] [${userId}]`)
+      const triple = await this.createTriple(atoms, { signer })
+
+      // Step 9: Optional extra stake on another curve; the link stands even if it fails
+      let curveDeposit: CurveDepositResult | undefined
+      let curveDepositError: string | undefined
+      try {
+        curveDeposit = await this.depositOnCurve(atoms.tripleId, { signer })
+      } catch (error) {
+        console.error('[SocialLinkEngine] Curve deposit failed:', error)
+        curveDepositError = toVerifierError(error).message
+      }
+
+      return {
+        success: true,
+        platform,
+        userId,
+        username,
+        tripleId: triple.tripleId,
+        atomIds: atomCreation.atomIds,
+        deposits: [...atomCreation.deposits, ...triple.deposits, ...(curveDeposit?.deposit ? [curveDeposit.deposit] : [])],
+        signer,
+        txHash: triple.txHash,
+        blockNumber: triple.blockNumber,
+        walletAtomCreated: atomCreation.walletAtomCreated,
+        predicateAtomCreated: atomCreation.predicateAtomCreated,
+        socialAtomCreated: atomCreation.socialAtomCreated,
+        curveDeposit,
+        curveDepositError,
+      }
+    } catch (error) {
+      console.error('[SocialLinkEngine] Link error:', error)
+
+      return {
+        success: false,
+        platform,
+        userId,
+        username,
+        walletAtomCreated: atomCreation?.walletAtomCreated,
+        predicateAtomCreated: atomCreation?.predicateAtomCreated,
+        socialAtomCreated: atomCreation?.socialAtomCreated,
+        ...toErrorFields(toVerifierError(error)),
+      }
+    } finally {
+      this.releaseSigner(reservationId)
+    }
+  }
+
+  /**
+   * Deposit on top of the creation cost for one atom or the triple
+   */
+  async getDeposit(platform: SocialPlatform, role: DepositRole): Promise<bigint> {
+    return await resolveDeposit(this.config.depositPolicy, {
+      platform,
+      role,
+      network: this.config.chainConfig.chain.id === intuitionTestnet.id ? 'testnet' : 'mainnet',
+      getLimits: () => this.getDepositLimits(),
+    })
+  }
+
+  /**
+   * Check whether an atom or triple exists on-chain
+   */
+  async isTermCreated(id: `0x${string}`): Promise<boolean> {
+    return await this.publicClient.readContract({
+      address: this.config.chainConfig.multivaultAddress,
+      abi: MultiVaultAbi,
+      functionName: 'isTermCreated',
+      args: [id],
+    }) as boolean
+  }
+
+  /**
+   * Social atom label, falling back to the pinned metadata when the indexer
+   * only knows the IPFS URI
+   */
+  private async resolveSocialLabel(label?: string, data?: string): Promise<string | undefined> {
+    if (label && !label.startsWith('ipfs://')) return label
+    if (!data) return label
+
+    return await resolveIpfsName(data, this.config.ipfsGatewayUrl ?? IPFS_GATEWAY_URL) ?? label
+  }
+
+  /**
+   * Accounts whose triples count as verifications: `trustedAttesters`, or every bot key
+   * Anyone can create a triple, so one from another creator proves nothing.
+   */
+  private getTrustedAttesters(): `0x${string}`[] {
+    return this.config.trustedAttesters ?? this.pool.addresses
+  }
+
+  /**
+   * Batcher for a signer's atoms and triples (created on first use)
+   */
+  private getBatcher(signer: BotSigner): CreationBatcher {
+    let batcher = this.batchers.get(signer.account.address)
+    if (!batcher) {
+      batcher = new CreationBatcher({
+        ...this.config.batching,
+        publicClient: this.publicClient,
+        signer,
+        multivaultAddress: this.config.chainConfig.multivaultAddress,
+        onRevert: (txHash, blockNumber, action) => this.revertException(txHash, blockNumber, action),
+      })
+      this.batchers.set(signer.account.address, batcher)
+    }
+    return batcher
+  }
+
+  /**
+   * Decode why a mined transaction reverted and log it
+   */
+  private async revertException(
+    txHash: `0x${string}`,
+    blockNumber: bigint,
+    action: string
+  ): Promise<VerifierException> {
+    const failure = await diagnoseRevertedTransaction(this.publicClient, txHash, blockNumber, action)
+
+    if (failure.code === 'TX_REVERTED' && failure.contractError) {
+      console.error(
+        `[SocialLinkEngine] ${action} TX ${txHash} reverted: ${formatContractError(failure.contractError, failure.contractErrorArgs)}`
+      )
+    } else {
+      console.error(`[SocialLinkEngine] ${action} TX ${txHash} reverted (reason unknown)`)
+    }
+
+    return new VerifierException(failure)
+  }
+
+  /**
+   * MultiVault minimum deposit and shares, read once
+   */
+  private getDepositLimits(): Promise<MultiVaultDepositLimits> {
+    this.depositLimits ??= (this.publicClient.readContract({
+      address: this.config.chainConfig.multivaultAddress,
+      abi: MultiVaultAbi,
+      functionName: 'getGeneralConfig',
+    }) as Promise<MultiVaultDepositLimits>).catch((error) => {
+      // Do not cache a failed read
+      this.depositLimits = undefined
+      throw error
+    })
+
+    return this.depositLimits
+  }
+
+  /**
+   * Preview the configured curve deposit on a triple
+   */
+  private async previewCurveDeposit(tripleId: `0x${string}`): Promise<CostPreview | null> {
+    const curveDeposit = this.config.curveDeposit
+    if (!curveDeposit) return null
+
+    const [shares, assetsAfterFees] = await this.publicClient.readContract({
+      address: this.config.chainConfig.multivaultAddress,
+      abi: MultiVaultAbi,
+      functionName: 'previewDeposit',
+      args: [tripleId, curveDeposit.curveId, curveDeposit.assets],
+    }) as readonly [bigint, bigint]
+
+    return {
+      termId: tripleId,
+      curveId: curveDeposit.curveId,
+      assets: curveDeposit.assets,
+      creationCost: 0n,
+      fees: curveDeposit.assets - assetsAfterFees,
+      assetsAfterFees,
+      shares,
+    }
+  }
+
+  private async calculateAtomId(data: `0x${string}`): Promise<`0x${string}`> {
+    return await this.publicClient.readContract({
+      address: this.config.chainConfig.multivaultAddress,
+      abi: MultiVaultAbi,
+      functionName: 'calculateAtomId',
+      args: [data],
+    }) as `0x${string}`
+  }
+}
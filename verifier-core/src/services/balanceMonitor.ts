@@ -0,0 +1,124 @@
+/**
+ * Balance Monitor
+ *
+ * Polls the bot balance and raises an alert when it drops below a warning
+ * threshold, so the wallet can be topped up before verifications start
+ * failing with INSUFFICIENT_BOT_BALANCE.
+ */
+
+import { formatEther } from 'viem'
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface BalanceStatus {
+  address: `0x${string}`
+  balance: bigint
+  warningThreshold: bigint
+  low: boolean
+  checkedAt: number
+}
+
+export interface BalanceMonitorConfig {
+  address: `0x${string}`
+  getBalance: () => Promise<bigint>
+  /** Alert when the balance drops below this (wei) */
+  warningThreshold: bigint
+  /** Polling interval (default: 5 minutes) */
+  intervalMs?: number
+  /**
+   * Called once when the balance drops below the threshold, and again only
+   * after it has recovered and dropped again
+   */
+  onLowBalance?: (status: BalanceStatus) => void | Promise<void>
+  /** Called once when the balance is back above the threshold */
+  onRecovered?: (status: BalanceStatus) => void | Promise<void>
+}
+
+export const BALANCE_MONITOR_INTERVAL_MS = 5 * 60 * 1000
+
+// ============================================================
+// Monitor
+// ============================================================
+
+export class BalanceMonitor {
+  private timer?: ReturnType<typeof setInterval>
+  private low = false
+  private lastStatus?: BalanceStatus
+
+  constructor(private readonly config: BalanceMonitorConfig) {}
+
+  /**
+   * Check now, then every `intervalMs`
+   */
+  start(): void {
+    if (this.timer) return
+
+    void this.check()
+    this.timer = setInterval(() => void this.check(), this.config.intervalMs ?? BALANCE_MONITOR_INTERVAL_MS)
+
+    // Polling alone must not keep a Node process alive (browser timers are plain numbers)
+    const timer: unknown = this.timer
+    if (typeof timer === 'object' && timer !== null && 'unref' in timer && typeof timer.unref === 'function') {
+      timer.unref()
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = undefined
+    }
+  }
+
+  /**
+   * Most recent check (undefined before the first one completes)
+   */
+  get status(): BalanceStatus | undefined {
+    return this.lastStatus
+  }
+
+  /**
+   * Read the balance once and fire the alert callbacks on a threshold crossing
+   * Errors are logged, never thrown, so a flaky RPC does not stop the monitor.
+   */
+  async check(): Promise<BalanceStatus | undefined> {
+    const { address, warningThreshold } = this.config
+
+    let balance: bigint
+    try {
+      balance = await this.config.getBalance()
+    } catch (error) {
+      console.error('[BalanceMonitor] Balance check failed:', error)
+      return undefined
+    }
+
+    const status: BalanceStatus = {
+      address,
+      balance,
+      warningThreshold,
+      low: balance < warningThreshold,
+      checkedAt: Date.now(),
+    }
+    this.lastStatus = status
+
+    try {
+      if (status.low && !this.low) {
+        console.warn(
+          `[BalanceMonitor] Bot ${address} balance ${formatEther(balance)} TRUST is below ${formatEther(warningThreshold)} TRUST`
+        )
+        this.low = true
+        await this.config.onLowBalance?.(status)
+      } else if (!status.low && this.low) {
+        console.log(`[BalanceMonitor] Bot ${address} balance recovered: ${formatEther(balance)} TRUST`)
+        this.low = false
+        await this.config.onRecovered?.(status)
+      }
+    } catch (error) {
+      console.error('[BalanceMonitor] Alert callback failed:', error)
+    }
+
+    return status
+  }
+}
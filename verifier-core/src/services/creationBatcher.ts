@@ -0,0 +1,356 @@
+/**
+ * Creation Batcher
+ *
+ * Opt-in batching for launch-day spikes. Instead of one createAtoms and one
+ * createTriples transaction per verification, pending verifications are
+ * collected for a short window and their atoms and triples created in
+ * combined calls (at most the contract's MAX_BATCH_SIZE terms each). Every
+ * caller gets back the IDs of its own terms, read from the AtomCreated /
+ * TripleCreated events of the shared transaction.
+ *
+ * One batcher exists per bot signer. Its batches are sent one at a time, so
+ * a batch never includes an atom that the previous one is still creating
+ * (every verification of a platform shares the predicate atom).
+ */
+
+import { encodeFunctionData, type Hex, type PublicClient } from 'viem'
+import { MultiVaultAbi } from '../abi/MultiVault'
+import { GAS_LIMITS } from '../config/constants'
+import { decodeMultiVaultEvents, depositsFor, type TermDeposit } from './multivaultEvents'
+import { type BotSigner } from './walletPool'
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface BatchingConfig {
+  /** How long to collect verifications before sending (default: 2 seconds) */
+  windowMs?: number
+  /** Most terms per transaction (default and upper bound: the contract's MAX_BATCH_SIZE) */
+  maxSize?: number
+}
+
+interface BatchTerm {
+  /** Atom or triple ID */
+  id: Hex
+  /** Value sent for the term (creation cost + deposit) */
+  assets: bigint
+}
+
+export interface AtomBatchItem extends BatchTerm {
+  data: Hex
+}
+
+export interface TripleBatchItem extends BatchTerm {
+  subjectId: Hex
+  predicateId: Hex
+  objectId: Hex
+}
+
+export interface BatchResult {
+  /** Shared transaction (absent when every term already existed) */
+  txHash?: Hex
+  blockNumber?: number
+  /** This caller's terms created by the transaction, from its events */
+  createdIds: Hex[]
+  /** Deposits into this caller's terms, from the Deposited events */
+  deposits: TermDeposit[]
+  /** Verifications that shared the transaction */
+  batchSize: number
+}
+
+export interface CreationBatcherOptions extends BatchingConfig {
+  publicClient: PublicClient
+  signer: BotSigner
+  multivaultAddress: `0x${string}`
+  /** Exception for a mined transaction that reverted */
+  onRevert: (txHash: Hex, blockNumber: bigint, action: string) => Promise<Error>
+}
+
+export const BATCHING_CONFIG = {
+  WINDOW_MS: 2000,
+} as const
+
+type BatchKind = 'atoms' | 'triples'
+
+interface PendingRequest<Item> {
+  items: Item[]
+  resolve: (result: BatchResult) => void
+  reject: (error: unknown) => void
+}
+
+interface Lane<Item> {
+  kind: BatchKind
+  pending: PendingRequest<Item>[]
+  timer?: ReturnType<typeof setTimeout>
+}
+
+// ============================================================
+// Batcher
+// ============================================================
+
+export class CreationBatcher {
+  private readonly atoms: Lane<AtomBatchItem> = { kind: 'atoms', pending: [] }
+  private readonly triples: Lane<TripleBatchItem> = { kind: 'triples', pending: [] }
+  private tail: Promise<unknown> = Promise.resolve()
+  private maxBatchSize?: Promise<number>
+
+  constructor(private readonly options: CreationBatcherOptions) {}
+
+  /**
+   * Create atoms in the next batch
+   * Atoms that exist by the time the batch is sent (e.g. created by another
+   * caller's batch) are skipped.
+   */
+  createAtoms(items: AtomBatchItem[]): Promise<BatchResult> {
+    return this.enqueue(this.atoms, items)
+  }
+
+  /**
+   * Create triples in the next batch
+   */
+  createTriples(items: TripleBatchItem[]): Promise<BatchResult> {
+    return this.enqueue(this.triples, items)
+  }
+
+  private enqueue<Item extends BatchTerm>(lane: Lane<Item>, items: Item[]): Promise<BatchResult> {
+    return new Promise<BatchResult>((resolve, reject) => {
+      lane.pending.push({ items, resolve, reject })
+
+      const size = uniqueItems(lane.pending.flatMap((request) => request.items)).length
+      if (this.options.maxSize !== undefined && size >= this.options.maxSize) {
+        this.flush(lane)
+      } else if (!lane.timer) {
+        lane.timer = setTimeout(() => this.flush(lane), this.options.windowMs ?? BATCHING_CONFIG.WINDOW_MS)
+      }
+    })
+  }
+
+  /**
+   * Hand the lane's pending requests to the send chain
+   */
+  private flush<Item extends BatchTerm>(lane: Lane<Item>): void {
+    if (lane.timer) {
+      clearTimeout(lane.timer)
+      lane.timer = undefined
+    }
+
+    const requests = lane.pending
+    lane.pending = []
+    if (requests.length === 0) return
+
+    const run = this.tail.then(() => this.sendRequests(lane.kind, requests))
+    this.tail = run.catch(() => undefined)
+  }
+
+  private async sendRequests<Item extends BatchTerm>(kind: BatchKind, requests: PendingRequest<Item>[]): Promise<void> {
+    try {
+      const limit = await this.getBatchLimit()
+      for (const chunk of chunkRequests(requests, limit)) {
+        await this.sendBatch(kind, chunk)
+      }
+    } catch (error) {
+      // Requests already settled ignore this
+      requests.forEach((request) => request.reject(error))
+    }
+  }
+
+  private async sendBatch<Item extends BatchTerm>(kind: BatchKind, requests: PendingRequest<Item>[]): Promise<void> {
+    const { signer, multivaultAddress } = this.options
+    const items = await this.withoutExisting(uniqueItems(requests.flatMap((request) => request.items)))
+
+    if (items.length === 0) {
+      requests.forEach((request) => request.resolve({ createdIds: [], deposits: [], batchSize: requests.length }))
+      return
+    }
+
+    let accepted = requests
+    let batchItems = items
+    try {
+      await this.simulate(kind, batchItems)
+    } catch {
+      // One bad verification reverts the whole batch: drop the ones that fail on their own
+      console.warn(`[CreationBatcher] Batch of ${requests.length} ${kind} requests reverts, checking them one by one`)
+      accepted = []
+      for (const request of requests) {
+        const own = batchItems.filter((item) => includesId(request.items, item.id))
+        try {
+          if (own.length > 0) await this.simulate(kind, own)
+          accepted.push(request)
+        } catch (error) {
+          request.reject(error)
+        }
+      }
+      batchItems = batchItems.filter((item) => accepted.some((request) => includesId(request.items, item.id)))
+      if (accepted.length === 0) return
+    }
+
+    const transaction = {
+      to: multivaultAddress,
+      data: this.encode(kind, batchItems),
+      value: totalAssets(batchItems),
+      gas: (kind === 'atoms' ? GAS_LIMITS.ATOM_CREATION : GAS_LIMITS.TRIPLE_CREATION) * BigInt(batchItems.length),
+    }
+
+    try {
+      const sentHash = await signer.transactions.send(transaction)
+      console.log(
+        `[CreationBatcher] ${kind} batch TX: ${sentHash} (${batchItems.length} terms, ${accepted.length} verifications)`
+      )
+
+      const receipt = await signer.transactions.waitForReceipt(sentHash, transaction)
+      if (receipt.status !== 'success') {
+        throw await this.options.onRevert(
+          receipt.transactionHash,
+          receipt.blockNumber,
+          kind === 'atoms' ? 'Batched atom creation' : 'Batched triple creation'
+        )
+      }
+
+      const events = decodeMultiVaultEvents(receipt, multivaultAddress)
+      const created = new Set(
+        (kind === 'atoms' ? events.atoms : events.triples).map((event) => event.termId.toLowerCase())
+      )
+
+      accepted.forEach((request) => {
+        const ids = request.items.map((item) => item.id)
+        request.resolve({
+          txHash: receipt.transactionHash,
+          blockNumber: Number(receipt.blockNumber),
+          createdIds: ids.filter((id) => created.has(id.toLowerCase())),
+          deposits: depositsFor(events.deposits, ids),
+          batchSize: accepted.length,
+        })
+      })
+    } catch (error) {
+      accepted.forEach((request) => request.reject(error))
+    }
+  }
+
+  private async simulate(kind: BatchKind, items: BatchTerm[]): Promise<void> {
+    const { publicClient, signer, multivaultAddress } = this.options
+    const value = totalAssets(items)
+
+    if (kind === 'atoms') {
+      const atoms = items as AtomBatchItem[]
+      await publicClient.simulateContract({
+        account: signer.account,
+        address: multivaultAddress,
+        abi: MultiVaultAbi,
+        functionName: 'createAtoms',
+        args: [atoms.map((atom) => atom.data), atoms.map((atom) => atom.assets)],
+        value,
+      })
+      return
+    }
+
+    const triples = items as TripleBatchItem[]
+    await publicClient.simulateContract({
+      account: signer.account,
+      address: multivaultAddress,
+      abi: MultiVaultAbi,
+      functionName: 'createTriples',
+      args: tripleArgs(triples),
+      value,
+    })
+  }
+
+  private encode(kind: BatchKind, items: BatchTerm[]): Hex {
+    if (kind === 'atoms') {
+      const atoms = items as AtomBatchItem[]
+      return encodeFunctionData({
+        abi: MultiVaultAbi,
+        functionName: 'createAtoms',
+        args: [atoms.map((atom) => atom.data), atoms.map((atom) => atom.assets)],
+      })
+    }
+
+    return encodeFunctionData({
+      abi: MultiVaultAbi,
+      functionName: 'createTriples',
+      args: tripleArgs(items as TripleBatchItem[]),
+    })
+  }
+
+  private async withoutExisting<Item extends BatchTerm>(items: Item[]): Promise<Item[]> {
+    const created = await Promise.all(items.map((item) => this.options.publicClient.readContract({
+      address: this.options.multivaultAddress,
+      abi: MultiVaultAbi,
+      functionName: 'isTermCreated',
+      args: [item.id],
+    }) as Promise<boolean>))
+
+    return items.filter((_, index) => !created[index])
+  }
+
+  /**
+   * Terms per transaction: `maxSize` capped by MAX_BATCH_SIZE (read once)
+   */
+  private async getBatchLimit(): Promise<number> {
+    this.maxBatchSize ??= (this.options.publicClient.readContract({
+      address: this.options.multivaultAddress,
+      abi: MultiVaultAbi,
+      functionName: 'MAX_BATCH_SIZE',
+    }) as Promise<bigint>).then(Number)
+
+    let contractLimit: number
+    try {
+      contractLimit = await this.maxBatchSize
+    } catch (error) {
+      this.maxBatchSize = undefined
+      throw error
+    }
+
+    const { maxSize } = this.options
+    return maxSize !== undefined && maxSize < contractLimit ? maxSize : contractLimit
+  }
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function includesId(items: BatchTerm[], id: Hex): boolean {
+  return items.some((item) => item.id.toLowerCase() === id.toLowerCase())
+}
+
+/**
+ * Items with duplicate IDs removed (the first one wins)
+ */
+function uniqueItems<Item extends BatchTerm>(items: Item[]): Item[] {
+  return items.filter((item, index) => items.findIndex((other) => other.id.toLowerCase() === item.id.toLowerCase()) === index)
+}
+
+/**
+ * Split requests into groups of at most `limit` distinct terms
+ * A request is never split; one larger than `limit` is sent alone.
+ */
+function chunkRequests<Item extends BatchTerm>(requests: PendingRequest<Item>[], limit: number): PendingRequest<Item>[][] {
+  const chunks: PendingRequest<Item>[][] = []
+  let current: PendingRequest<Item>[] = []
+
+  for (const request of requests) {
+    const size = uniqueItems([...current, request].flatMap((entry) => entry.items)).length
+    if (current.length > 0 && size > limit) {
+      chunks.push(current)
+      current = []
+    }
+    current.push(request)
+  }
+  if (current.length > 0) chunks.push(current)
+
+  return chunks
+}
+
+function totalAssets(items: BatchTerm[]): bigint {
+  return items.reduce((sum, item) => sum + item.assets, 0n)
+}
+
+function tripleArgs(triples: TripleBatchItem[]): readonly [Hex[], Hex[], Hex[], bigint[]] {
+  return [
+    triples.map((triple) => triple.subjectId),
+    triples.map((triple) => triple.predicateId),
+    triples.map((triple) => triple.objectId),
+    triples.map((triple) => triple.assets),
+  ]
+}
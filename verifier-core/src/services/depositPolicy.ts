@@ -0,0 +1,89 @@
+/**
+ * Deposit Policy
+ *
+ * How much the bot deposits on top of the creation cost of each atom and
+ * triple. Amounts can be set per atom role, per network and per platform,
+ * or computed by a function (e.g. from the MultiVault minimum deposit).
+ * Anything left unset falls back to `BOT_DEPOSIT_CONFIG`.
+ */
+
+import { BOT_DEPOSIT_CONFIG, type SocialPlatform } from '../config/constants'
+
+// ============================================================
+// Types
+// ============================================================
+
+/** What a deposit is for: one of the three atoms, or the triple */
+export type DepositRole = 'wallet' | 'predicate' | 'social' | 'triple'
+
+export type DepositNetwork = 'testnet' | 'mainnet'
+
+export type DepositAmounts = Partial<Record<DepositRole, bigint>>
+
+/**
+ * MultiVault limits from getGeneralConfig
+ */
+export interface MultiVaultDepositLimits {
+  minDeposit: bigint
+  minShare: bigint
+}
+
+export interface DepositContext {
+  platform: SocialPlatform
+  role: DepositRole
+  network: DepositNetwork
+  /** MultiVault limits, read once per engine */
+  getLimits: () => Promise<MultiVaultDepositLimits>
+}
+
+/**
+ * Static deposit rules
+ * The most specific match wins: platform, then network, then default.
+ */
+export interface DepositRules {
+  default?: DepositAmounts
+  networks?: Partial<Record<DepositNetwork, DepositAmounts>>
+  platforms?: Partial<Record<SocialPlatform, DepositAmounts>>
+}
+
+export type DepositPolicy = DepositRules | ((context: DepositContext) => bigint | Promise<bigint>)
+
+// ============================================================
+// Resolution
+// ============================================================
+
+/**
+ * Deposits used when no policy sets a role
+ */
+export const DEFAULT_DEPOSITS: Record<DepositRole, bigint> = {
+  wallet: BOT_DEPOSIT_CONFIG.ATOM_DEPOSIT,
+  predicate: BOT_DEPOSIT_CONFIG.ATOM_DEPOSIT,
+  social: BOT_DEPOSIT_CONFIG.ATOM_DEPOSIT,
+  triple: BOT_DEPOSIT_CONFIG.TRIPLE_EXTRA,
+}
+
+/**
+ * Deposit for one atom or triple under a policy
+ */
+export async function resolveDeposit(policy: DepositPolicy | undefined, context: DepositContext): Promise<bigint> {
+  if (typeof policy === 'function') {
+    return await policy(context)
+  }
+
+  const { platform, role, network } = context
+
+  return policy?.platforms?.[platform]?.[role]
+    ?? policy?.networks?.[network]?.[role]
+    ?? policy?.default?.[role]
+    ?? DEFAULT_DEPOSITS[role]
+}
+
+/**
+ * Raise every deposit of `policy` to at least the MultiVault minimum deposit
+ */
+export function withMinimumDeposit(policy?: DepositPolicy): DepositPolicy {
+  return async (context) => {
+    const [deposit, limits] = await Promise.all([resolveDeposit(policy, context), context.getLimits()])
+    return deposit > limits.minDeposit ? deposit : limits.minDeposit
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * Intuition Indexer
+ *
+ * Read-only queries against the Intuition GraphQL indexer
+ * (`chainConfig.graphqlEndpoint`). The indexer knows which triples exist
+ * for a subject and predicate, which cannot be enumerated on-chain.
+ */
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface IndexedTriple {
+  /** Triple term ID */
+  tripleId: `0x${string}`
+  /** Subject atom ID */
+  subjectId: `0x${string}`
+  /** Subject atom data (the wallet address for social links) */
+  subjectData?: string
+  predicateId: `0x${string}`
+  /** Object atom ID */
+  objectId: `0x${string}`
+  /** Object atom label (the userId for social atoms) */
+  objectLabel?: string
+  /** Object atom data (the IPFS URI for social atoms) */
+  objectData?: string
+  /** Block in which the triple was created */
+  blockNumber?: number
+  createdAt?: string
+  transactionHash?: `0x${string}`
+  /** Account that created the triple (the verifier bot) */
+  creatorId?: `0x${string}`
+  /** Vault stake on the queried curve */
+  totalShares: bigint
+  totalAssets: bigint
+  positionCount: number
+}
+
+/**
+ * A triple as returned by the indexer (IndexedTripleFields)
+ * Numeric columns arrive as strings or numbers depending on their size.
+ */
+interface RawIndexerTriple {
+  term_id: `0x${string}`
+  subject_id: `0x${string}`
+  predicate_id: `0x${string}`
+  object_id: `0x${string}`
+  creator_id?: `0x${string}` | null
+  block_number?: string | number | null
+  created_at?: string | null
+  transaction_hash?: `0x${string}` | null
+  subject?: { data?: string | null } | null
+  object?: { label?: string | null; data?: string | null } | null
+  term?: {
+    vaults?: {
+      total_shares?: string | number | null
+      total_assets?: string | number | null
+      position_count?: string | number | null
+    }[]
+  } | null
+}
+
+interface GraphQLResponse<T> {
+  data?: T | null
+  errors?: { message: string }[]
+}
+
+// ============================================================
+// Queries
+// ============================================================
+
+const TRIPLES_BY_SUBJECT_PREDICATES_QUERY = `
+  query TriplesBySubjectPredicates($subjectId: String!, $predicateIds: [String!]!, $curveId: numeric!) {
+    triples(
+      where: { subject_id: { _eq: $subjectId }, predicate_id: { _in: $predicateIds } }
+      order_by: { block_number: desc }
+    ) {
+      ...IndexedTripleFields
+    }
+  }
+`
+
+const TRIPLES_BY_PREDICATE_OBJECTS_QUERY = `
+  query TriplesByPredicateObjects($predicateId: String!, $objectIds: [String!]!, $objectLabel: String!, $curveId: numeric!) {
+    triples(
+      where: {
+        predicate_id: { _eq: $predicateId }
+        _or: [{ object_id: { _in: $objectIds } }, { object: { label: { _eq: $objectLabel } } }]
+      }
+      order_by: { block_number: asc }
+    ) {
+      ...IndexedTripleFields
+    }
+  }
+`
+
+const INDEXED_TRIPLE_FIELDS = `
+  fragment IndexedTripleFields on triples {
+    term_id
+    subject_id
+    predicate_id
+    object_id
+    creator_id
+    block_number
+    created_at
+    transaction_hash
+    subject {
+      data
+    }
+    object {
+      label
+      data
+    }
+    term {
+      vaults(where: { curve_id: { _eq: $curveId } }) {
+        total_shares
+        total_assets
+        position_count
+      }
+    }
+  }
+`
+
+/**
+ * Run a GraphQL query against the indexer
+ * Throws on network errors, non-2xx responses, GraphQL errors and responses
+ * without data.
+ */
+export async function queryIndexer<T>(
+  graphqlEndpoint: string,
+  query: string,
+  variables: Record<string, unknown>
+): Promise<T> {
+  const response = await fetch(graphqlEndpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ query, variables }),
+  })
+
+  if (!response.ok) {
+    throw new Error(`Indexer query failed: ${response.status}`)
+  }
+
+  const result: GraphQLResponse<T> = await response.json()
+
+  if (result.errors?.length) {
+    throw new Error(`Indexer query error: ${result.errors[0].message}`)
+  }
+
+  if (!result.data) {
+    throw new Error('Indexer query returned no data')
+  }
+
+  return result.data
+}
+
+/**
+ * Triples with the given subject and predicate, newest first
+ */
+export async function findTriplesBySubjectPredicate(
+  graphqlEndpoint: string,
+  subjectId: `0x${string}`,
+  predicateId: `0x${string}`,
+  curveId: bigint
+): Promise<IndexedTriple[]> {
+  return await findTriplesBySubjectPredicates(graphqlEndpoint, subjectId, [predicateId], curveId)
+}
+
+/**
+ * Triples with the given subject and any of the predicates, newest first
+ */
+export async function findTriplesBySubjectPredicates(
+  graphqlEndpoint: string,
+  subjectId: `0x${string}`,
+  predicateIds: `0x${string}`[],
+  curveId: bigint
+): Promise<IndexedTriple[]> {
+  const data = await queryIndexer<{ triples?: RawIndexerTriple[] }>(
+    graphqlEndpoint,
+    TRIPLES_BY_SUBJECT_PREDICATES_QUERY + INDEXED_TRIPLE_FIELDS,
+    { subjectId, predicateIds, curveId: curveId.toString() }
+  )
+
+  return (data.triples ?? []).map(toIndexedTriple)
+}
+
+/**
+ * Triples with the given predicate whose object atom has the given label, oldest first
+ * Social atoms are labelled with the userId from their pinned IPFS metadata.
+ */
+export async function findTriplesByPredicateObjectLabel(
+  graphqlEndpoint: string,
+  predicateId: `0x${string}`,
+  objectLabel: string,
+  curveId: bigint
+): Promise<IndexedTriple[]> {
+  return await findTriplesByPredicateObjects(graphqlEndpoint, predicateId, [], objectLabel, curveId)
+}
+
+/**
+ * Triples with the given predicate whose object is one of `objectIds` or has
+ * the label `objectLabel`, oldest first
+ * The label alone misses atoms the indexer left labelled with their raw
+ * ipfs:// URI, so pass the known social atom IDs as well.
+ */
+export async function findTriplesByPredicateObjects(
+  graphqlEndpoint: string,
+  predicateId: `0x${string}`,
+  objectIds: `0x${string}`[],
+  objectLabel: string,
+  curveId: bigint
+): Promise<IndexedTriple[]> {
+  const data = await queryIndexer<{ triples?: RawIndexerTriple[] }>(
+    graphqlEndpoint,
+    TRIPLES_BY_PREDICATE_OBJECTS_QUERY + INDEXED_TRIPLE_FIELDS,
+    { predicateId, objectIds, objectLabel, curveId: curveId.toString() }
+  )
+
+  return (data.triples ?? []).map(toIndexedTriple)
+}
+
+function toIndexedTriple(triple: RawIndexerTriple): IndexedTriple {
+  const vault = triple.term?.vaults?.[0]
+
+  return {
+    tripleId: triple.term_id,
+    subjectId: triple.subject_id,
+    subjectData: triple.subject?.data ?? undefined,
+    predicateId: triple.predicate_id,
+    objectId: triple.object_id,
+    objectLabel: triple.object?.label ?? undefined,
+    objectData: triple.object?.data ?? undefined,
+    blockNumber: triple.block_number !== undefined && triple.block_number !== null
+      ? Number(triple.block_number)
+      : undefined,
+    createdAt: triple.created_at ?? undefined,
+    transactionHash: triple.transaction_hash ?? undefined,
+    creatorId: triple.creator_id ?? undefined,
+    totalShares: BigInt(vault?.total_shares ?? 0),
+    totalAssets: BigInt(vault?.total_assets ?? 0),
+    positionCount: Number(vault?.position_count ?? 0),
+  }
+}
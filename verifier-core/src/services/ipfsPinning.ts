@@ -0,0 +1,261 @@
+/**
+ * IPFS Pinning
+ *
+ * Social atoms are stored as IPFS URIs so that the atom shows the userId
+ * as its label instead of "json object".
+ *
+ * Pinning goes through a `MetadataPinner`:
+ * - IntuitionPinner: Intuition's pinThing GraphQL mutation (default)
+ * - KuboPinner:      any IPFS node exposing the Kubo HTTP API
+ * - LocalPinner:     computes the CID locally without any network (tests, offline)
+ */
+
+import { sha256 } from 'viem'
+
+export interface PinMetadata {
+  /** Image URL shown on the atom (e.g. the account avatar) */
+  image?: string
+  /** Link shown on the atom (e.g. the profile page) */
+  url?: string
+}
+
+/**
+ * Pin data to IPFS via Intuition's pinThing mutation
+ * Returns the IPFS URI that will be used as the atom data
+ * The `name` parameter becomes the atom's label on-chain
+ */
+export async function pinToIPFS(
+  name: string,
+  description: string,
+  graphqlEndpoint: string,
+  metadata: PinMetadata = {}
+): Promise<string> {
+  const mutation = `
+    mutation PinThing($thing: PinThingInput!) {
+      pinThing(thing: $thing) {
+        uri
+      }
+    }
+  `
+
+  const response = await fetch(graphqlEndpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      query: mutation,
+      variables: {
+        thing: {
+          name,
+          description,
+          image: metadata.image ?? '',
+          url: metadata.url ?? ''
+        }
+      }
+    })
+  })
+
+  if (!response.ok) {
+    throw new Error(`IPFS pinning failed: ${response.status}`)
+  }
+
+  const result = await response.json()
+
+  if (result.errors) {
+    throw new Error(`IPFS pinning error: ${result.errors[0].message}`)
+  }
+
+  const uri = result.data?.pinThing?.uri
+  if (!uri) {
+    throw new Error('No IPFS URI returned from pinThing')
+  }
+
+  return uri
+}
+
+/**
+ * Fetch pinned metadata through an IPFS gateway and return its `name`
+ * (the atom label). Returns undefined if it cannot be resolved.
+ */
+export async function resolveIpfsName(uri: string, gatewayUrl: string): Promise<string | undefined> {
+  if (!uri.startsWith('ipfs://')) return undefined
+
+  try {
+    const response = await fetch(`${gatewayUrl.replace(/\/+$/, '')}/${uri.slice('ipfs://'.length)}`)
+    if (!response.ok) return undefined
+
+    const metadata = await response.json()
+    return typeof metadata?.name === 'string' ? metadata.name : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// ============================================================
+// Metadata Pinners
+// ============================================================
+
+export interface AtomMetadata {
+  /** Atom label (the userId for social atoms) */
+  name: string
+  description: string
+  image?: string
+  url?: string
+}
+
+export interface MetadataPinner {
+  /** Pin the metadata and return its IPFS URI (ipfs://<cid>) */
+  pin(metadata: AtomMetadata): Promise<string>
+  /** IPFS URI `pin` would return, computed without publishing anything */
+  uri?(metadata: AtomMetadata): Promise<string>
+}
+
+/**
+ * Serialize metadata as the schema.org Thing JSON that pinThing stores
+ */
+export function serializeAtomMetadata(metadata: AtomMetadata): string {
+  return JSON.stringify({
+    '@context': 'https://schema.org/',
+    '@type': 'Thing',
+    name: metadata.name,
+    description: metadata.description,
+    image: metadata.image ?? '',
+    url: metadata.url ?? '',
+  })
+}
+
+/**
+ * CIDv1 (raw codec, sha2-256, base32) of a block of bytes
+ * Matches `ipfs add --cid-version=1` for content below the chunk size (256 KiB).
+ */
+export function computeCidV1(bytes: Uint8Array): string {
+  const digest = sha256(bytes, 'bytes')
+  // version 1, raw codec (0x55), sha2-256 (0x12), 32-byte digest
+  return 'b' + base32(new Uint8Array([0x01, 0x55, 0x12, 0x20, ...digest]))
+}
+
+/**
+ * Pins through Intuition's pinThing GraphQL mutation
+ */
+export class IntuitionPinner implements MetadataPinner {
+  constructor(private graphqlEndpoint: string) {}
+
+  async pin(metadata: AtomMetadata): Promise<string> {
+    return await pinToIPFS(metadata.name, metadata.description, this.graphqlEndpoint, metadata)
+  }
+}
+
+export interface KuboPinnerConfig {
+  /** Kubo RPC API URL (default: http://127.0.0.1:5001) */
+  apiUrl?: string
+  /** Extra request headers, e.g. Authorization for hosted nodes */
+  headers?: Record<string, string>
+}
+
+/**
+ * Pins through the Kubo (go-ipfs) HTTP RPC API
+ */
+export class KuboPinner implements MetadataPinner {
+  private apiUrl: string
+  private headers: Record<string, string>
+
+  constructor(config: KuboPinnerConfig = {}) {
+    this.apiUrl = (config.apiUrl ?? 'http://127.0.0.1:5001').replace(/\/+$/, '')
+    this.headers = config.headers ?? {}
+  }
+
+  async pin(metadata: AtomMetadata): Promise<string> {
+    return await this.add(metadata, true)
+  }
+
+  /**
+   * Add the metadata, or only hash it (`only-hash`) when `pin` is false
+   */
+  private async add(metadata: AtomMetadata, pin: boolean): Promise<string> {
+    const body = new FormData()
+    body.append('file', new Blob([serializeAtomMetadata(metadata)], { type: 'application/json' }), 'metadata.json')
+
+    const query = pin ? 'cid-version=1&pin=true' : 'cid-version=1&only-hash=true'
+    const response = await fetch(`${this.apiUrl}/api/v0/add?${query}`, {
+      method: 'POST',
+      headers: this.headers,
+      body,
+    })
+
+    if (!response.ok) {
+      throw new Error(`IPFS pinning failed: ${response.status}`)
+    }
+
+    const result = await response.json()
+    if (!result?.Hash) {
+      throw new Error('No CID returned from IPFS add')
+    }
+
+    return `ipfs://${result.Hash}`
+  }
+
+  async uri(metadata: AtomMetadata): Promise<string> {
+    return await this.add(metadata, false)
+  }
+}
+
+export interface LocalPinnerConfig {
+  /** Called with each pinned block, e.g. to write it to disk */
+  onPin?: (cid: string, bytes: Uint8Array) => void | Promise<void>
+}
+
+/**
+ * Computes a real CIDv1 locally and keeps the content in memory
+ * Nothing is published, so indexers cannot resolve the label: use it for
+ * tests, local development or as a stand-in while pinning is down.
+ */
+export class LocalPinner implements MetadataPinner {
+  private blocks = new Map<string, Uint8Array>()
+
+  constructor(private config: LocalPinnerConfig = {}) {}
+
+  async pin(metadata: AtomMetadata): Promise<string> {
+    const bytes = new TextEncoder().encode(serializeAtomMetadata(metadata))
+    const cid = computeCidV1(bytes)
+
+    this.blocks.set(cid, bytes)
+    await this.config.onPin?.(cid, bytes)
+
+    return `ipfs://${cid}`
+  }
+
+  async uri(metadata: AtomMetadata): Promise<string> {
+    return `ipfs://${computeCidV1(new TextEncoder().encode(serializeAtomMetadata(metadata)))}`
+  }
+
+  /**
+   * Content pinned under a CID or ipfs:// URI
+   */
+  get(uri: string): Uint8Array | undefined {
+    return this.blocks.get(uri.replace(/^ipfs:\/\//, ''))
+  }
+}
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567'
+
+function base32(bytes: Uint8Array): string {
+  let output = ''
+  let value = 0
+  let bits = 0
+
+  for (const byte of bytes) {
+    value = ((value << 8) | byte) & 0xffff
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
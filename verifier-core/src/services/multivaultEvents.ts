@@ -0,0 +1,100 @@
+/**
+ * MultiVault Events
+ *
+ * Decodes the AtomCreated, TripleCreated and Deposited events of a receipt,
+ * so results can report the exact terms created and the shares minted
+ * instead of only the transaction hash.
+ */
+
+import { parseAbi, parseEventLogs, type Hex, type TransactionReceipt } from 'viem'
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface AtomCreatedEvent {
+  termId: Hex
+  creator: `0x${string}`
+  atomData: Hex
+}
+
+export interface TripleCreatedEvent {
+  termId: Hex
+  creator: `0x${string}`
+  subjectId: Hex
+  predicateId: Hex
+  objectId: Hex
+}
+
+export interface TermDeposit {
+  termId: Hex
+  curveId: bigint
+  sender: `0x${string}`
+  receiver: `0x${string}`
+  /** Assets deposited, before fees */
+  assets: bigint
+  assetsAfterFees: bigint
+  /** Shares minted to `receiver` */
+  shares: bigint
+}
+
+export interface MultiVaultEvents {
+  atoms: AtomCreatedEvent[]
+  triples: TripleCreatedEvent[]
+  deposits: TermDeposit[]
+}
+
+// MultiVaultAbi is not `as const`, so viem cannot type its events: the
+// decoded ones are restated here (signatures must match the contract)
+const MultiVaultEventsAbi = parseAbi([
+  'event AtomCreated(address indexed creator, bytes32 indexed termId, bytes atomData, address atomWallet)',
+  'event TripleCreated(address indexed creator, bytes32 indexed termId, bytes32 subjectId, bytes32 predicateId, bytes32 objectId)',
+  'event Deposited(address indexed sender, address indexed receiver, bytes32 indexed termId, uint256 curveId, uint256 assets, uint256 assetsAfterFees, uint256 shares, uint256 totalShares, uint8 vaultType)',
+])
+
+// ============================================================
+// Decoding
+// ============================================================
+
+/**
+ * AtomCreated, TripleCreated and Deposited events emitted by the MultiVault
+ * in a receipt, in log order
+ */
+export function decodeMultiVaultEvents(receipt: TransactionReceipt, multivaultAddress: `0x${string}`): MultiVaultEvents {
+  const logs = parseEventLogs({
+    abi: MultiVaultEventsAbi,
+    logs: receipt.logs.filter((log) => log.address.toLowerCase() === multivaultAddress.toLowerCase()),
+  })
+
+  const events: MultiVaultEvents = { atoms: [], triples: [], deposits: [] }
+
+  for (const log of logs) {
+    switch (log.eventName) {
+      case 'AtomCreated': {
+        const { termId, creator, atomData } = log.args
+        events.atoms.push({ termId, creator, atomData })
+        break
+      }
+      case 'TripleCreated': {
+        const { termId, creator, subjectId, predicateId, objectId } = log.args
+        events.triples.push({ termId, creator, subjectId, predicateId, objectId })
+        break
+      }
+      case 'Deposited': {
+        const { termId, curveId, sender, receiver, assets, assetsAfterFees, shares } = log.args
+        events.deposits.push({ termId, curveId, sender, receiver, assets, assetsAfterFees, shares })
+        break
+      }
+    }
+  }
+
+  return events
+}
+
+/**
+ * Deposits into the given terms
+ */
+export function depositsFor(deposits: TermDeposit[], termIds: Hex[]): TermDeposit[] {
+  const ids = new Set(termIds.map((id) => id.toLowerCase()))
+  return deposits.filter((deposit) => ids.has(deposit.termId.toLowerCase()))
+}
@@ -0,0 +1,225 @@
+/**
+ * Transaction Queue
+ *
+ * Every verification is paid by the same bot account. Sending from
+ * concurrent runs without coordination makes the node hand out the same
+ * nonce twice ("nonce too low", "replacement transaction underpriced").
+ *
+ * The queue assigns nonces locally and serializes only the send itself,
+ * so transactions are pipelined: the next send does not wait for the
+ * previous receipt. One queue exists per chain and account in the process
+ * (see `getTransactionQueue`).
+ */
+
+import {
+  BaseError,
+  NonceTooHighError,
+  NonceTooLowError,
+  TransactionNotFoundError,
+  WaitForTransactionReceiptTimeoutError,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  type TransactionReceipt,
+  type Transport,
+  type WalletClient,
+} from 'viem'
+import { type PrivateKeyAccount } from 'viem/accounts'
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface QueuedTransaction {
+  to: `0x${string}`
+  data: Hex
+  value?: bigint
+  gas?: bigint
+}
+
+export interface TransactionQueueOptions {
+  /** How long to wait for a receipt before checking whether the tx was dropped (default: 2 minutes) */
+  receiptTimeoutMs?: number
+  /** Receipt waits before giving up, including re-sends of dropped txs (default: 3) */
+  maxReceiptAttempts?: number
+}
+
+export const TRANSACTION_QUEUE_CONFIG = {
+  RECEIPT_TIMEOUT_MS: 2 * 60 * 1000,
+  MAX_RECEIPT_ATTEMPTS: 3,
+  // Re-sends after the node rejected the local nonce
+  MAX_NONCE_RETRIES: 2,
+} as const
+
+// ============================================================
+// Queue
+// ============================================================
+
+export class TransactionQueue {
+  /** Next nonce to use; undefined means re-read it from the node */
+  private nonce?: number
+  private tail: Promise<unknown> = Promise.resolve()
+  private inFlightCount = 0
+
+  constructor(
+    readonly publicClient: PublicClient,
+    readonly walletClient: WalletClient<Transport, Chain, PrivateKeyAccount>,
+    private readonly options: TransactionQueueOptions = {}
+  ) {}
+
+  get address(): `0x${string}` {
+    return this.walletClient.account.address
+  }
+
+  /**
+   * Transactions queued or sent and not yet confirmed by `waitForReceipt`
+   */
+  get inFlight(): number {
+    return this.inFlightCount
+  }
+
+  /**
+   * Send a transaction with the next local nonce
+   * Resolves once the node accepted it; use `waitForReceipt` to wait for inclusion.
+   */
+  async send(transaction: QueuedTransaction): Promise<Hex> {
+    this.inFlightCount++
+    try {
+      return await this.exclusive(() => this.sendWithNonce(transaction))
+    } catch (error) {
+      this.inFlightCount--
+      throw error
+    }
+  }
+
+  /**
+   * Wait for a queued transaction's receipt
+   * If the wait times out and the node no longer knows the transaction, it
+   * was dropped: the nonce is resynced and the transaction sent again.
+   * A replacement (same nonce, e.g. sped up) resolves with its receipt.
+   */
+  async waitForReceipt(hash: Hex, transaction: QueuedTransaction): Promise<TransactionReceipt> {
+    try {
+      return await this.waitOrResend(hash, transaction)
+    } finally {
+      this.inFlightCount = Math.max(0, this.inFlightCount - 1)
+    }
+  }
+
+  /**
+   * Forget the local nonce; the next send re-reads it from the node
+   */
+  async resync(): Promise<void> {
+    await this.exclusive(async () => {
+      this.nonce = undefined
+    })
+  }
+
+  private async waitOrResend(hash: Hex, transaction: QueuedTransaction): Promise<TransactionReceipt> {
+    const maxAttempts = this.options.maxReceiptAttempts ?? TRANSACTION_QUEUE_CONFIG.MAX_RECEIPT_ATTEMPTS
+    let currentHash = hash
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.publicClient.waitForTransactionReceipt({
+          hash: currentHash,
+          timeout: this.options.receiptTimeoutMs ?? TRANSACTION_QUEUE_CONFIG.RECEIPT_TIMEOUT_MS,
+        })
+      } catch (error) {
+        if (!(error instanceof WaitForTransactionReceiptTimeoutError) || attempt >= maxAttempts) {
+          throw error
+        }
+
+        if (!(await this.isDropped(currentHash))) {
+          console.warn(`[TransactionQueue] ${currentHash} still pending, waiting again`)
+          continue
+        }
+
+        console.warn(`[TransactionQueue] ${currentHash} was dropped, sending again`)
+        currentHash = await this.exclusive(() => {
+          this.nonce = undefined
+          return this.sendWithNonce(transaction)
+        })
+      }
+    }
+  }
+
+  private async sendWithNonce(transaction: QueuedTransaction, retry = 0): Promise<Hex> {
+    if (this.nonce === undefined) {
+      this.nonce = await this.publicClient.getTransactionCount({ address: this.address, blockTag: 'pending' })
+    }
+
+    const nonce = this.nonce
+
+    try {
+      const hash = await this.walletClient.sendTransaction({ ...transaction, nonce })
+      this.nonce = nonce + 1
+      return hash
+    } catch (error) {
+      // The node may or may not have taken the nonce: re-read it
+      this.nonce = undefined
+
+      if (retry < TRANSACTION_QUEUE_CONFIG.MAX_NONCE_RETRIES && isNonceError(error)) {
+        console.warn(`[TransactionQueue] Nonce ${nonce} rejected, resyncing`)
+        return await this.sendWithNonce(transaction, retry + 1)
+      }
+      throw error
+    }
+  }
+
+  private async isDropped(hash: Hex): Promise<boolean> {
+    try {
+      await this.publicClient.getTransaction({ hash })
+      return false
+    } catch (error) {
+      if (error instanceof TransactionNotFoundError) return true
+      throw error
+    }
+  }
+
+  /**
+   * Run tasks one at a time, in call order
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.tail.then(task, task)
+    this.tail = run.catch(() => undefined)
+    return run
+  }
+}
+
+function isNonceError(error: unknown): boolean {
+  if (error instanceof BaseError) {
+    const nonceError = error.walk((cause) => cause instanceof NonceTooLowError || cause instanceof NonceTooHighError)
+    if (nonceError) return true
+  }
+
+  const message = error instanceof Error ? error.message.toLowerCase() : ''
+  return message.includes('replacement transaction underpriced') || message.includes('nonce too low')
+}
+
+// ============================================================
+// Shared Queues
+// ============================================================
+
+const queues = new Map<string, TransactionQueue>()
+
+/**
+ * The process-wide queue for an account on a chain
+ * Every engine (and so every BotVerifierService and workflow run) sending
+ * from the same account shares it.
+ */
+export function getTransactionQueue(
+  publicClient: PublicClient,
+  walletClient: WalletClient<Transport, Chain, PrivateKeyAccount>,
+  options?: TransactionQueueOptions
+): TransactionQueue {
+  const key = `${walletClient.chain.id}:${walletClient.account.address.toLowerCase()}`
+
+  let queue = queues.get(key)
+  if (!queue) {
+    queue = new TransactionQueue(publicClient, walletClient, options)
+    queues.set(key, queue)
+  }
+
+  return queue
+}
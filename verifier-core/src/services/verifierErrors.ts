@@ -0,0 +1,297 @@
+/**
+ * Verifier Errors
+ *
+ * Typed error codes for verification and linking results, so a UI can show
+ * an actionable message instead of a raw API or viem error string.
+ * MultiVault custom errors are decoded with the bundled `MultiVaultAbi`.
+ */
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  InsufficientFundsError,
+  TimeoutError,
+  decodeErrorResult,
+  decodeFunctionData,
+  type Hex,
+  type PublicClient,
+} from 'viem'
+import { MultiVaultAbi } from '../abi/MultiVault'
+
+// ============================================================
+// Types
+// ============================================================
+
+export const VERIFIER_ERROR_CODES = [
+  'INVALID_REQUEST',
+  'UNSUPPORTED_PLATFORM',
+  'WALLET_OWNERSHIP_INVALID',
+  'CREDENTIALS_MISSING',
+  'OAUTH_INVALID',
+  'OAUTH_EXPIRED',
+  'OAUTH_SCOPE_MISSING',
+  'OAUTH_RATE_LIMITED',
+  'OAUTH_UNAVAILABLE',
+  'ACCOUNT_NOT_FOUND',
+  'PIN_FAILED',
+  'INDEXER_UNAVAILABLE',
+  'ALREADY_CLAIMED_BY_OTHER_WALLET',
+  'INSUFFICIENT_BOT_BALANCE',
+  'COST_LIMIT_EXCEEDED',
+  'INVALID_CURVE',
+  'ATOM_EXISTS',
+  'TRIPLE_EXISTS',
+  'ATOM_DATA_TOO_LONG',
+  'DEPOSIT_TOO_LOW',
+  'CONTRACT_PAUSED',
+  'CONTRACT_ERROR',
+  'TX_REVERTED',
+  'RPC_UNAVAILABLE',
+  'UNKNOWN',
+] as const
+
+export type VerifierErrorCode = typeof VERIFIER_ERROR_CODES[number]
+
+type PlainErrorCode = Exclude<VerifierErrorCode, 'ALREADY_CLAIMED_BY_OTHER_WALLET' | 'CONTRACT_ERROR' | 'TX_REVERTED'>
+
+/**
+ * A failed verification step, discriminated by `code`
+ */
+export type VerifierError =
+  | {
+      code: PlainErrorCode
+      message: string
+      /** MultiVault custom error name, when the code was decoded from a revert */
+      contractError?: string
+      contractErrorArgs?: string[]
+    }
+  | { code: 'ALREADY_CLAIMED_BY_OTHER_WALLET'; message: string; claimedBy: string[] }
+  | { code: 'CONTRACT_ERROR'; message: string; contractError: string; contractErrorArgs?: string[] }
+  | {
+      code: 'TX_REVERTED'
+      message: string
+      txHash: `0x${string}`
+      /** Decoded revert of the replayed transaction (see diagnoseRevertedTransaction) */
+      contractError?: string
+      contractErrorArgs?: string[]
+    }
+
+/**
+ * Thrown by engine phases; `toVerifierError` unwraps it
+ */
+export class VerifierException extends Error {
+  constructor(readonly verifierError: VerifierError) {
+    super(verifierError.message)
+    this.name = 'VerifierException'
+  }
+}
+
+// ============================================================
+// MultiVault Custom Errors
+// ============================================================
+
+/**
+ * MultiVault custom errors with a dedicated code and message
+ * Any other custom error maps to CONTRACT_ERROR.
+ */
+const MULTIVAULT_ERRORS: Record<string, { code: PlainErrorCode; message: string }> = {
+  MultiVault_InsufficientBalance: {
+    code: 'INSUFFICIENT_BOT_BALANCE',
+    message: 'The verifier wallet does not have enough TRUST to pay for this verification',
+  },
+  InsufficientBalance: {
+    code: 'INSUFFICIENT_BOT_BALANCE',
+    message: 'The verifier wallet does not have enough TRUST to pay for this verification',
+  },
+  MultiVault_AtomExists: {
+    code: 'ATOM_EXISTS',
+    message: 'One of the atoms was created by another transaction; retry the verification',
+  },
+  MultiVault_TripleExists: {
+    code: 'TRIPLE_EXISTS',
+    message: 'This account is already linked to this wallet',
+  },
+  MultiVault_AtomDataTooLong: {
+    code: 'ATOM_DATA_TOO_LONG',
+    message: 'The atom data is longer than the contract allows',
+  },
+  MultiVault_DepositBelowMinimumDeposit: {
+    code: 'DEPOSIT_TOO_LOW',
+    message: 'The configured deposit is below the contract minimum',
+  },
+  MultiVault_DepositTooSmallToCoverMinShares: {
+    code: 'DEPOSIT_TOO_LOW',
+    message: 'The configured deposit is too small to cover the minimum shares',
+  },
+  EnforcedPause: {
+    code: 'CONTRACT_PAUSED',
+    message: 'The MultiVault contract is paused; try again later',
+  },
+}
+
+/**
+ * Decode MultiVault revert data into its custom error name and arguments
+ */
+export function decodeMultiVaultError(data: Hex): { errorName: string; args: readonly unknown[] } | undefined {
+  try {
+    const decoded = decodeErrorResult({ abi: MultiVaultAbi, data })
+    return { errorName: decoded.errorName, args: decoded.args ?? [] }
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Typed error for a MultiVault custom error name
+ */
+export function fromMultiVaultError(errorName: string, args: readonly unknown[] = []): VerifierError {
+  const contractErrorArgs = args.length > 0 ? formatErrorArgs(args) : undefined
+  const known = MULTIVAULT_ERRORS[errorName]
+  if (known) {
+    return { code: known.code, message: known.message, contractError: errorName, contractErrorArgs }
+  }
+  return {
+    code: 'CONTRACT_ERROR',
+    message: `MultiVault rejected the transaction (${errorName})`,
+    contractError: errorName,
+    contractErrorArgs,
+  }
+}
+
+/**
+ * Human-readable custom error, e.g. `MultiVault_DepositBelowMinimumDeposit(100, 1000)`
+ */
+export function formatContractError(errorName: string, args: readonly string[] = []): string {
+  return `${errorName}(${args.join(', ')})`
+}
+
+// bigint and nested values are not JSON serializable
+function formatErrorArgs(args: readonly unknown[]): string[] {
+  return args.map((arg) => String(arg))
+}
+
+/**
+ * Replay a reverted transaction against the state of its block and decode the revert
+ *
+ * Receipts carry no revert data, so the transaction's call is re-simulated
+ * with the original sender, value and calldata. Returns TX_REVERTED with the
+ * MultiVault custom error name and arguments when the replay reproduces the
+ * revert, or TX_REVERTED with the hash only when it does not (e.g. out of gas).
+ */
+export async function diagnoseRevertedTransaction(
+  publicClient: PublicClient,
+  txHash: `0x${string}`,
+  blockNumber: bigint,
+  action: string
+): Promise<VerifierError> {
+  const reverted: VerifierError = { code: 'TX_REVERTED', message: `${action} failed. TX: ${txHash}`, txHash }
+
+  try {
+    const transaction = await publicClient.getTransaction({ hash: txHash })
+    if (!transaction.to) return reverted
+
+    const { functionName, args } = decodeFunctionData({ abi: MultiVaultAbi, data: transaction.input })
+
+    await publicClient.simulateContract({
+      account: transaction.from,
+      address: transaction.to,
+      abi: MultiVaultAbi,
+      functionName,
+      args: args as readonly unknown[],
+      value: transaction.value,
+      blockNumber,
+    })
+
+    // The replay succeeded: the revert depended on gas or on ordering within the block
+    return reverted
+  } catch (error) {
+    const decoded = toVerifierError(error)
+    if (decoded.code === 'ALREADY_CLAIMED_BY_OTHER_WALLET' || decoded.code === 'TX_REVERTED' || !decoded.contractError) {
+      return reverted
+    }
+
+    return {
+      ...reverted,
+      message: `${action} failed: ${decoded.message}. TX: ${txHash}`,
+      contractError: decoded.contractError,
+      contractErrorArgs: decoded.contractErrorArgs,
+    }
+  }
+}
+
+// ============================================================
+// Conversion
+// ============================================================
+
+/**
+ * Result fields for a typed error: { error, errorCode, ...details }
+ */
+export function toErrorFields(failure: VerifierError): {
+  error: string
+  errorCode: VerifierErrorCode
+  contractError?: string
+  contractErrorArgs?: string[]
+  txHash?: `0x${string}`
+  claimedBy?: string[]
+} {
+  const { message, code, ...details } = failure
+  return { error: message, errorCode: code, ...details }
+}
+
+/**
+ * Typed error for a failed OAuth API response
+ */
+export function fromOAuthResponse(platform: string, response: Response, body: string): VerifierError {
+  const status = response.status
+  const detail = `${body} ${response.headers.get('www-authenticate') ?? ''}`.toLowerCase()
+
+  if (status === 429 || (status === 403 && response.headers.get('x-ratelimit-remaining') === '0')) {
+    return { code: 'OAUTH_RATE_LIMITED', message: `${platform} rate limit reached; try again later` }
+  }
+  if (status === 401) {
+    return detail.includes('expired')
+      ? { code: 'OAUTH_EXPIRED', message: `The ${platform} token has expired; sign in again` }
+      : { code: 'OAUTH_INVALID', message: `The ${platform} token is invalid; sign in again` }
+  }
+  if (status === 403) {
+    return { code: 'OAUTH_SCOPE_MISSING', message: `The ${platform} token is missing a required scope` }
+  }
+  if (status >= 500) {
+    return { code: 'OAUTH_UNAVAILABLE', message: `${platform} API returned ${status}; try again later` }
+  }
+  return { code: 'OAUTH_INVALID', message: `${platform} API returned ${status}` }
+}
+
+/**
+ * Convert anything thrown during linking into a typed error
+ */
+export function toVerifierError(error: unknown): VerifierError {
+  if (error instanceof VerifierException) {
+    return error.verifierError
+  }
+
+  if (error instanceof BaseError) {
+    const reverted = error.walk((cause) => cause instanceof ContractFunctionRevertedError)
+    if (reverted instanceof ContractFunctionRevertedError) {
+      const decoded = reverted.data
+        ?? (reverted.raw ? decodeMultiVaultError(reverted.raw) : undefined)
+      if (decoded && decoded.errorName !== 'Error' && decoded.errorName !== 'Panic') {
+        return fromMultiVaultError(decoded.errorName, decoded.args ?? [])
+      }
+    }
+
+    if (error.walk((cause) => cause instanceof InsufficientFundsError)) {
+      return {
+        code: 'INSUFFICIENT_BOT_BALANCE',
+        message: 'The verifier wallet does not have enough TRUST to pay for gas and deposits',
+      }
+    }
+
+    if (error.walk((cause) => cause instanceof HttpRequestError || cause instanceof TimeoutError)) {
+      return { code: 'RPC_UNAVAILABLE', message: 'The Intuition RPC is unreachable; try again later' }
+    }
+  }
+
+  return { code: 'UNKNOWN', message: error instanceof Error ? error.message : String(error) }
+}
@@ -0,0 +1,267 @@
+/**
+ * Wallet Ownership Challenge
+ *
+ * Proves that the caller controls the wallet a social account is linked to.
+ * The verifier issues a single-use challenge (nonce, platform, wallet, expiry),
+ * the user signs it with their wallet (EIP-712 typed data or an EIP-191
+ * personal message) and the verifier checks the signature before doing any
+ * on-chain work.
+ */
+
+import {
+  bytesToHex,
+  isAddress,
+  isAddressEqual,
+  verifyMessage,
+  verifyTypedData,
+  type PublicClient,
+} from 'viem'
+import { WALLET_CHALLENGE_CONFIG, type SocialPlatform } from '../config/constants'
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface LinkChallenge {
+  /** Wallet the social account will be linked to */
+  wallet: `0x${string}`
+  /** Platform being linked */
+  platform: SocialPlatform
+  /** Random 32-byte nonce issued by the verifier */
+  nonce: `0x${string}`
+  /** Expiry as a unix timestamp (seconds) */
+  expiry: number
+}
+
+export type ChallengeSignatureType = 'eip712' | 'eip191'
+
+export interface WalletOwnershipProof {
+  /** Challenge returned by `createLinkChallenge` */
+  challenge: LinkChallenge
+  /** Wallet signature over the challenge */
+  signature: `0x${string}`
+  /** How the challenge was signed (default: eip712) */
+  signatureType?: ChallengeSignatureType
+}
+
+export interface IssuedLinkChallenge {
+  challenge: LinkChallenge
+  /** EIP-712 payload to pass to `signTypedData` */
+  typedData: ReturnType<typeof getLinkChallengeTypedData>
+  /** EIP-191 message to pass to `signMessage` */
+  message: string
+}
+
+export interface WalletOwnershipResult {
+  valid: boolean
+  error?: string
+}
+
+/**
+ * Storage for issued nonces
+ * Implement this with a shared store (Redis, database...) when running
+ * several verifier instances behind a load balancer.
+ */
+export interface NonceStore {
+  /** Remember an issued challenge until it expires */
+  issue(challenge: LinkChallenge): Promise<void>
+  /** Remove and return the challenge for a nonce (null if unknown or already used) */
+  consume(nonce: `0x${string}`): Promise<LinkChallenge | null>
+}
+
+// ============================================================
+// Nonce Store
+// ============================================================
+
+/**
+ * Process-local nonce store
+ */
+export class InMemoryNonceStore implements NonceStore {
+  private challenges = new Map<string, LinkChallenge>()
+
+  async issue(challenge: LinkChallenge): Promise<void> {
+    this.prune()
+    this.challenges.set(challenge.nonce.toLowerCase(), challenge)
+  }
+
+  async consume(nonce: `0x${string}`): Promise<LinkChallenge | null> {
+    const key = nonce.toLowerCase()
+    const challenge = this.challenges.get(key)
+    if (!challenge) return null
+
+    this.challenges.delete(key)
+    return challenge.expiry > nowInSeconds() ? challenge : null
+  }
+
+  private prune() {
+    const now = nowInSeconds()
+    for (const [key, challenge] of this.challenges) {
+      if (challenge.expiry <= now) this.challenges.delete(key)
+    }
+  }
+}
+
+/**
+ * Store shared by every verifier in this process
+ */
+export const defaultNonceStore: NonceStore = new InMemoryNonceStore()
+
+// ============================================================
+// Challenge Payloads
+// ============================================================
+
+export const LINK_CHALLENGE_TYPES = {
+  LinkSocialAccount: [
+    { name: 'wallet', type: 'address' },
+    { name: 'platform', type: 'string' },
+    { name: 'nonce', type: 'bytes32' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const
+
+/**
+ * EIP-712 typed data for a challenge
+ */
+export function getLinkChallengeTypedData(challenge: LinkChallenge, chainId: number) {
+  return {
+    domain: {
+      name: WALLET_CHALLENGE_CONFIG.DOMAIN_NAME,
+      version: WALLET_CHALLENGE_CONFIG.DOMAIN_VERSION,
+      chainId,
+    },
+    types: LINK_CHALLENGE_TYPES,
+    primaryType: 'LinkSocialAccount' as const,
+    message: {
+      wallet: challenge.wallet,
+      platform: challenge.platform,
+      nonce: challenge.nonce,
+      expiry: BigInt(challenge.expiry),
+    },
+  }
+}
+
+/**
+ * EIP-191 message for a challenge
+ */
+export function formatLinkChallengeMessage(challenge: LinkChallenge, chainId: number): string {
+  return [
+    `${WALLET_CHALLENGE_CONFIG.DOMAIN_NAME} wants you to link your ${challenge.platform} account to:`,
+    challenge.wallet,
+    '',
+    `Chain ID: ${chainId}`,
+    `Nonce: ${challenge.nonce}`,
+    `Expires: ${new Date(challenge.expiry * 1000).toISOString()}`,
+  ].join('\n')
+}
+
+// ============================================================
+// Issue & Verify
+// ============================================================
+
+/**
+ * Issue a new single-use challenge for a wallet/platform pair
+ */
+export async function createLinkChallenge(
+  walletAddress: `0x${string}`,
+  platform: SocialPlatform,
+  options: {
+    chainId: number
+    nonceStore?: NonceStore
+    ttlSeconds?: number
+  }
+): Promise<IssuedLinkChallenge> {
+  if (!isAddress(walletAddress)) {
+    throw new Error(`Invalid wallet address: ${walletAddress}`)
+  }
+
+  const nonceStore = options.nonceStore ?? defaultNonceStore
+  const ttl = options.ttlSeconds ?? WALLET_CHALLENGE_CONFIG.TTL_SECONDS
+
+  const challenge: LinkChallenge = {
+    wallet: walletAddress,
+    platform,
+    nonce: bytesToHex(crypto.getRandomValues(new Uint8Array(32))),
+    expiry: nowInSeconds() + ttl,
+  }
+
+  await nonceStore.issue(challenge)
+
+  return {
+    challenge,
+    typedData: getLinkChallengeTypedData(challenge, options.chainId),
+    message: formatLinkChallengeMessage(challenge, options.chainId),
+  }
+}
+
+/**
+ * Verify a signed challenge and consume its nonce
+ *
+ * Pass a public client to also accept smart contract wallets (ERC-1271).
+ */
+export async function verifyWalletOwnership(
+  proof: WalletOwnershipProof,
+  expected: {
+    walletAddress: `0x${string}`
+    platform: SocialPlatform
+    chainId: number
+    nonceStore?: NonceStore
+    publicClient?: PublicClient
+  }
+): Promise<WalletOwnershipResult> {
+  const { challenge, signature } = proof
+  const nonceStore = expected.nonceStore ?? defaultNonceStore
+
+  if (!challenge || !signature) {
+    return { valid: false, error: 'Wallet ownership proof is required' }
+  }
+  if (!isAddress(expected.walletAddress)) {
+    return { valid: false, error: 'Invalid wallet address' }
+  }
+  if (!isAddress(challenge.wallet) || !isAddressEqual(challenge.wallet, expected.walletAddress)) {
+    return { valid: false, error: 'Challenge was issued for a different wallet' }
+  }
+  if (challenge.platform !== expected.platform) {
+    return { valid: false, error: 'Challenge was issued for a different platform' }
+  }
+  if (challenge.expiry <= nowInSeconds()) {
+    return { valid: false, error: 'Challenge has expired' }
+  }
+
+  let signatureValid = false
+  try {
+    if (proof.signatureType === 'eip191') {
+      const message = formatLinkChallengeMessage(challenge, expected.chainId)
+      signatureValid = expected.publicClient
+        ? await expected.publicClient.verifyMessage({ address: challenge.wallet, message, signature })
+        : await verifyMessage({ address: challenge.wallet, message, signature })
+    } else {
+      const typedData = getLinkChallengeTypedData(challenge, expected.chainId)
+      signatureValid = expected.publicClient
+        ? await expected.publicClient.verifyTypedData({ address: challenge.wallet, signature, ...typedData })
+        : await verifyTypedData({ address: challenge.wallet, signature, ...typedData })
+    }
+  } catch {
+    signatureValid = false
+  }
+
+  if (!signatureValid) {
+    return { valid: false, error: 'Invalid wallet signature' }
+  }
+
+  // Consume only after the signature checks out, so a forged request can't burn the user's nonce
+  const issued = await nonceStore.consume(challenge.nonce)
+  if (
+    !issued ||
+    !isAddressEqual(issued.wallet, challenge.wallet) ||
+    issued.platform !== challenge.platform ||
+    issued.expiry !== challenge.expiry
+  ) {
+    return { valid: false, error: 'Challenge nonce is unknown or was already used' }
+  }
+
+  return { valid: true }
+}
+
+function nowInSeconds(): number {
+  return Math.floor(Date.now() / 1000)
+}
@@ -0,0 +1,197 @@
+/**
+ * Bot Wallet Pool
+ *
+ * Several bot keys that share the verification load. Each signer has its
+ * own nonce stream (TransactionQueue), so runs paid by different signers
+ * never wait on each other, and one empty or stuck key does not stop the
+ * verifier. A run is paid entirely by the signer picked for it.
+ *
+ * Picking a signer reserves the run's quoted cost against it until the run
+ * is released, so concurrent runs see each other before any transaction is
+ * sent and do not all pick the same key.
+ */
+
+import {
+  createWalletClient,
+  http,
+  type Chain,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from 'viem'
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts'
+import { type ChainConfiguration } from '../config/chainConfig'
+import { getTransactionQueue, type TransactionQueue } from './transactionQueue'
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface BotSigner {
+  account: PrivateKeyAccount
+  walletClient: WalletClient<Transport, Chain, PrivateKeyAccount>
+  transactions: TransactionQueue
+}
+
+export interface SignerBalance {
+  address: `0x${string}`
+  balance: bigint
+  /** Transactions sent and not yet confirmed */
+  inFlight: number
+  /** Runs that picked this signer and are not released yet */
+  runs: number
+  /** Quoted cost (wei) of those runs */
+  reserved: bigint
+}
+
+export interface SignerSelection {
+  /** Least-busy signer holding `required`; undefined when none does */
+  signer?: BotSigner
+  /** Pass to `release` when the run finishes (set when a reservation was made) */
+  reservationId?: string
+  balances: SignerBalance[]
+}
+
+interface Reservation {
+  address: `0x${string}`
+  amount: bigint
+  expiresAt: number
+}
+
+export const WALLET_POOL_CONFIG = {
+  /** Reservations of runs that never finish (e.g. a suspended workflow) expire after this */
+  RESERVATION_TTL_MS: 10 * 60 * 1000,
+} as const
+
+// ============================================================
+// Pool
+// ============================================================
+
+export class BotWalletPool {
+  readonly signers: BotSigner[]
+  private reservations = new Map<string, Reservation>()
+  private nextReservation = 0
+
+  constructor(
+    privateKeys: `0x${string}`[],
+    chainConfig: ChainConfiguration,
+    private readonly publicClient: PublicClient
+  ) {
+    if (privateKeys.length === 0) {
+      throw new Error('At least one bot private key is required')
+    }
+
+    const accounts = privateKeys.map((key) => privateKeyToAccount(key))
+    // The same key listed twice would share one nonce stream anyway
+    const unique = accounts.filter((account, index) =>
+      accounts.findIndex((other) => other.address === account.address) === index
+    )
+
+    this.signers = unique.map((account) => {
+      const walletClient = createWalletClient({
+        account,
+        chain: chainConfig.chain,
+        transport: http(chainConfig.rpcUrl),
+      })
+      return { account, walletClient, transactions: getTransactionQueue(publicClient, walletClient) }
+    })
+  }
+
+  /** First configured signer (the bot address of single-key setups) */
+  get primary(): BotSigner {
+    return this.signers[0]
+  }
+
+  get addresses(): `0x${string}`[] {
+    return this.signers.map((signer) => signer.account.address)
+  }
+
+  /**
+   * Signer for an address (default: primary)
+   */
+  get(address?: `0x${string}`): BotSigner {
+    if (!address) return this.primary
+
+    const signer = this.signers.find((candidate) => candidate.account.address.toLowerCase() === address.toLowerCase())
+    if (!signer) {
+      throw new Error(`${address} is not a bot signer`)
+    }
+    return signer
+  }
+
+  /**
+   * Balance and load of every signer
+   */
+  async balances(): Promise<SignerBalance[]> {
+    return this.withReservations(await this.onchainBalances())
+  }
+
+  /**
+   * Pick the least-busy signer holding at least `required` (wei) on top of
+   * what its unreleased runs reserved
+   * Ties go to the larger balance. Signers below `required` are skipped.
+   * With `reservation`, that amount is reserved on the picked signer until
+   * `release` is called with the returned `reservationId`.
+   */
+  async select(required: bigint, reservation?: bigint): Promise<SignerSelection> {
+    const onchain = await this.onchainBalances()
+
+    // No await from here on: reservations made by concurrent selects are
+    // counted, and this one is recorded before any other select resumes
+    const balances = this.withReservations(onchain)
+    const funded = balances
+      .filter((entry) => entry.balance - entry.reserved >= required)
+      .sort((a, b) =>
+        a.inFlight + a.runs - (b.inFlight + b.runs) || (b.balance > a.balance ? 1 : b.balance < a.balance ? -1 : 0)
+      )
+
+    const picked = funded[0]
+    if (!picked) return { balances }
+
+    let reservationId: string | undefined
+    if (reservation !== undefined) {
+      reservationId = `${picked.address}:${++this.nextReservation}`
+      this.reservations.set(reservationId, {
+        address: picked.address,
+        amount: reservation,
+        expiresAt: Date.now() + WALLET_POOL_CONFIG.RESERVATION_TTL_MS,
+      })
+    }
+
+    return { signer: this.get(picked.address), reservationId, balances }
+  }
+
+  /**
+   * Release a run's reservation (unknown or already released IDs are ignored)
+   */
+  release(reservationId?: string): void {
+    if (reservationId) this.reservations.delete(reservationId)
+  }
+
+  private async onchainBalances(): Promise<Omit<SignerBalance, 'runs' | 'reserved'>[]> {
+    return await Promise.all(this.signers.map(async (signer) => ({
+      address: signer.account.address,
+      balance: await this.publicClient.getBalance({ address: signer.account.address }),
+      inFlight: signer.transactions.inFlight,
+    })))
+  }
+
+  private withReservations(balances: Omit<SignerBalance, 'runs' | 'reserved'>[]): SignerBalance[] {
+    this.pruneReservations()
+    return balances.map((entry) => {
+      const held = [...this.reservations.values()].filter((reservation) => reservation.address === entry.address)
+      return {
+        ...entry,
+        runs: held.length,
+        reserved: held.reduce((sum, reservation) => sum + reservation.amount, 0n),
+      }
+    })
+  }
+
+  private pruneReservations(): void {
+    const now = Date.now()
+    for (const [id, reservation] of this.reservations) {
+      if (reservation.expiresAt <= now) this.reservations.delete(id)
+    }
+  }
+}